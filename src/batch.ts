@@ -0,0 +1,88 @@
+import path from 'path';
+import ignore from 'ignore';
+import type { WorkspaceFile } from './workspace.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('batch');
+
+// Running one task over many workspace files with a concurrency limit
+
+export type JobStatus = 'ok' | 'error' | 'cancelled';
+
+export interface JobResult<T> {
+  status: JobStatus;
+  value?: T;
+  error?: string;
+  durationMs: number;
+}
+
+export interface JobQueueOptions<T> {
+  concurrency: number;
+  // Once aborted, jobs that have not started are cancelled; running ones should watch the signal too
+  signal?: AbortSignal;
+  // Called as each job settles, with the number of settled jobs so far
+  onSettled?: (result: JobResult<T>, index: number, settled: number) => void | Promise<void>;
+}
+
+// Run `worker` over every item, at most `concurrency` at a time; results come back in item order
+export async function runJobs<I, T>(
+  items: I[],
+  worker: (item: I, index: number) => Promise<T>,
+  options: JobQueueOptions<T>
+): Promise<JobResult<T>[]> {
+  const results = new Array<JobResult<T> | undefined>(items.length);
+  let next = 0;
+  let settled = 0;
+
+  const lane = async () => {
+    while (next < items.length && !options.signal?.aborted) {
+      const index = next++;
+      const started = Date.now();
+      let result: JobResult<T>;
+      try {
+        result = { status: 'ok', value: await worker(items[index], index), durationMs: Date.now() - started };
+      } catch (error) {
+        result = {
+          // A job that fails because the batch was cancelled counts as cancelled
+          status: options.signal?.aborted ? 'cancelled' : 'error',
+          error: error instanceof Error ? error.message : String(error),
+          durationMs: Date.now() - started,
+        };
+      }
+      results[index] = result;
+      settled++;
+      try {
+        await options.onSettled?.(result, index, settled);
+      } catch (error) {
+        // Progress reporting must not stop the batch
+        log.warning("Error reporting batch progress", { error });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(options.concurrency, items.length)) }, lane));
+  return Array.from(results, result => result ?? { status: 'cancelled', durationMs: 0 });
+}
+
+// Workspace files matching any of the gitignore-style patterns in `include` and none in `exclude`
+export function matchFiles(files: WorkspaceFile[], include: string[], exclude: string[] = []): WorkspaceFile[] {
+  const included = ignore().add(include);
+  const excluded = ignore().add(exclude);
+  return files.filter(file => included.ignores(file.name) && !excluded.ignores(file.name));
+}
+
+// Output path for a file from a template with {path}, {dir}, {name}, {stem} and {ext} placeholders
+export function expandOutputPath(template: string, file: string): string {
+  const ext = path.posix.extname(file);
+  const dir = path.posix.dirname(file);
+  const values: Record<string, string> = {
+    path: file,
+    dir: dir === '.' ? '' : dir,
+    name: path.posix.basename(file),
+    stem: path.posix.basename(file, ext),
+    ext,
+  };
+  const expanded = path.posix.normalize(template.replace(/\{(path|dir|name|stem|ext)\}/g, (_, key: string) => values[key]));
+  // An empty {dir} at the start must not turn the path into an absolute one
+  return template.startsWith('/') ? expanded : expanded.replace(/^\/+/, '');
+}
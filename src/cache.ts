@@ -0,0 +1,213 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { requestKey } from './cassette.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('cache');
+
+// Cache of completion responses, keyed by the normalized request
+
+// 'bypass' neither reads nor writes the cache; 'refresh' skips the lookup but stores the new response
+export const CACHE_MODES = ['bypass', 'refresh'] as const;
+export type CacheMode = typeof CACHE_MODES[number];
+
+export interface ResponseCacheOptions {
+  // Keep entries on disk as well, so they survive restarts
+  dir?: string;
+  ttlMs?: number;
+  // Upper bound on the size of all cached responses; the least recently used are evicted first
+  maxBytes?: number;
+  // Also cache sampled requests; by default only temperature 0 requests are deterministic enough
+  anyTemperature?: boolean;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  // Requests that were not looked up: sampled, bypassed or refreshed
+  skipped: number;
+  evictions: number;
+  entries: number;
+  bytes: number;
+  // Tokens the hits would have cost
+  savedTokens: number;
+}
+
+interface CacheEntry {
+  response: unknown;
+  bytes: number;
+  expiresAt: number;
+}
+
+interface StoredEntry {
+  endpoint: string;
+  createdAt: number;
+  expiresAt: number;
+  response: unknown;
+}
+
+const tokensOf = (response: unknown): number =>
+  (response as { usage?: { total_tokens?: number } } | undefined)?.usage?.total_tokens ?? 0;
+
+export class ResponseCache {
+  // Map order doubles as the LRU order: entries are moved to the end when used
+  private entries?: Map<string, CacheEntry>;
+  private loading?: Promise<Map<string, CacheEntry>>;
+  private bytes = 0;
+  private counters = { hits: 0, misses: 0, skipped: 0, evictions: 0, savedTokens: 0 };
+  private readonly ttlMs: number;
+  private readonly maxBytes: number;
+
+  constructor(private options: ResponseCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000;
+    this.maxBytes = options.maxBytes ?? 50 * 1024 * 1024;
+  }
+
+  cacheable(request: Record<string, unknown>): boolean {
+    return this.options.anyTemperature === true || request.temperature === 0;
+  }
+
+  // Answer from the cache when possible, otherwise call `fn` and keep its response
+  async intercept<T>(
+    endpoint: string,
+    request: Record<string, unknown>,
+    mode: CacheMode | undefined,
+    fn: () => Promise<T>
+  ): Promise<{ response: T; cached: boolean }> {
+    if (mode === 'bypass' || !this.cacheable(request)) {
+      this.counters.skipped++;
+      return { response: await fn(), cached: false };
+    }
+
+    const key = requestKey(endpoint, request);
+    if (mode === 'refresh') {
+      this.counters.skipped++;
+    } else {
+      const hit = await this.get(key);
+      if (hit !== undefined) {
+        this.counters.hits++;
+        this.counters.savedTokens += tokensOf(hit);
+        return { response: hit as T, cached: true };
+      }
+      this.counters.misses++;
+    }
+
+    const response = await fn();
+    await this.set(key, endpoint, response);
+    return { response, cached: false };
+  }
+
+  async stats(): Promise<CacheStats> {
+    const entries = await this.load();
+    return { ...this.counters, entries: entries.size, bytes: this.bytes };
+  }
+
+  async clear(): Promise<void> {
+    const entries = await this.load();
+    for (const key of [...entries.keys()]) {
+      await this.remove(key);
+    }
+  }
+
+  private async get(key: string): Promise<unknown> {
+    const entries = await this.load();
+    const entry = entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      await this.remove(key);
+      return undefined;
+    }
+    entries.delete(key);
+    entries.set(key, entry);
+    return entry.response;
+  }
+
+  private async set(key: string, endpoint: string, response: unknown) {
+    const entries = await this.load();
+    const stored: StoredEntry = { endpoint, createdAt: Date.now(), expiresAt: Date.now() + this.ttlMs, response };
+    const text = JSON.stringify(stored);
+    if (text.length > this.maxBytes) {
+      return;
+    }
+
+    await this.remove(key);
+    entries.set(key, { response, bytes: text.length, expiresAt: stored.expiresAt });
+    this.bytes += text.length;
+    if (this.options.dir) {
+      try {
+        await fs.mkdir(this.options.dir, { recursive: true });
+        await fs.writeFile(this.file(key), text, 'utf-8');
+      } catch (error) {
+        // The entry still works from memory
+        log.warning("Error writing response cache entry", { error });
+      }
+    }
+
+    for (const oldest of entries.keys()) {
+      if (this.bytes <= this.maxBytes) {
+        break;
+      }
+      await this.remove(oldest);
+      this.counters.evictions++;
+    }
+  }
+
+  private async remove(key: string) {
+    const entry = this.entries?.get(key);
+    if (!entry) {
+      return;
+    }
+    this.entries!.delete(key);
+    this.bytes -= entry.bytes;
+    if (this.options.dir) {
+      await fs.rm(this.file(key), { force: true });
+    }
+  }
+
+  private file(key: string) {
+    return path.join(this.options.dir!, `${key}.json`);
+  }
+
+  // Read the disk entries once, oldest first, dropping expired and unreadable ones
+  private async load(): Promise<Map<string, CacheEntry>> {
+    if (this.entries) {
+      return this.entries;
+    }
+    this.loading ??= (async () => {
+      const found: Array<[string, CacheEntry, number]> = [];
+      let names: string[] = [];
+      if (this.options.dir) {
+        try {
+          names = await fs.readdir(this.options.dir);
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw error;
+          }
+        }
+      }
+
+      for (const name of names.filter(name => name.endsWith('.json'))) {
+        const file = path.join(this.options.dir!, name);
+        try {
+          const text = await fs.readFile(file, 'utf-8');
+          const stored = JSON.parse(text) as StoredEntry;
+          if (stored.expiresAt > Date.now()) {
+            found.push([path.basename(name, '.json'), { response: stored.response, bytes: text.length, expiresAt: stored.expiresAt }, stored.createdAt]);
+            continue;
+          }
+        } catch {
+          // Unreadable entries are dropped like expired ones
+        }
+        await fs.rm(file, { force: true });
+      }
+
+      const entries = new Map(found.sort((a, b) => a[2] - b[2]).map(([key, entry]) => [key, entry]));
+      this.bytes = [...entries.values()].reduce((sum, entry) => sum + entry.bytes, 0);
+      this.entries = entries;
+      return entries;
+    })();
+    return this.loading;
+  }
+}
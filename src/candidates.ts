@@ -0,0 +1,189 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { parseAllDocuments } from 'yaml';
+import { runTestCommand, sourceExtension } from './testrun.js';
+
+// Local checks for generated code, and ranking of several candidates by them
+
+export interface CheckResult {
+  ok: boolean;
+  // Which check ran, e.g. "typescript" or a configured command
+  checker: string;
+  errors: string[];
+}
+
+export type Checker = (code: string, language: string) => CheckResult | Promise<CheckResult>;
+
+export interface CodeValidatorOptions {
+  // Shell command per language (lowercase) that exits non-zero for invalid code, e.g. "python -m py_compile {file}".
+  // `{file}` is replaced with the quoted path of a temporary file holding the candidate.
+  commands?: Record<string, string>;
+  // Directory the commands run in
+  cwd?: string;
+  timeoutMs?: number;
+}
+
+// Errors reported per candidate; the rest are summarized
+const MAX_ERRORS = 5;
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  ts: 'typescript',
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  yml: 'yaml',
+  py: 'python',
+  rb: 'ruby',
+  rs: 'rust',
+};
+
+// Normalized language of a request, from the language parameter or else the file extension
+export function languageOf(language?: string, filePath?: string): string | undefined {
+  const name = language?.toLowerCase() ?? (filePath ? path.extname(filePath).slice(1).toLowerCase() : undefined);
+  return name ? LANGUAGE_ALIASES[name] ?? name : undefined;
+}
+
+// Syntax check through the TypeScript compiler, which parses JavaScript and JSX as well
+function scriptChecker(extension: string): Checker {
+  return async code => {
+    const { default: ts } = await import('typescript');
+    const output = ts.transpileModule(code, {
+      fileName: `candidate${extension}`,
+      reportDiagnostics: true,
+      compilerOptions: { jsx: ts.JsxEmit.Preserve, allowJs: true },
+    });
+    const errors = (output.diagnostics ?? [])
+      .filter(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error)
+      .map(diagnostic => {
+        const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+        if (diagnostic.file && diagnostic.start !== undefined) {
+          const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+          return `${line + 1}:${character + 1} ${message}`;
+        }
+        return message;
+      });
+    return { ok: errors.length === 0, checker: 'typescript', errors };
+  };
+}
+
+const BUILTIN_CHECKERS: Record<string, Checker> = {
+  typescript: scriptChecker('.ts'),
+  tsx: scriptChecker('.tsx'),
+  javascript: scriptChecker('.js'),
+  jsx: scriptChecker('.jsx'),
+  json: code => {
+    try {
+      JSON.parse(code);
+      return { ok: true, checker: 'json', errors: [] };
+    } catch (error) {
+      return { ok: false, checker: 'json', errors: [error instanceof Error ? error.message : String(error)] };
+    }
+  },
+  yaml: code => {
+    const errors = parseAllDocuments(code).flatMap(document => 'errors' in document ? document.errors.map(error => error.message) : []);
+    return { ok: errors.length === 0, checker: 'yaml', errors };
+  },
+};
+
+export class CodeValidator {
+  private checkers = new Map<string, Checker>(Object.entries(BUILTIN_CHECKERS));
+
+  constructor(options: CodeValidatorOptions = {}) {
+    for (const [language, command] of Object.entries(options.commands ?? {})) {
+      this.register(languageOf(language)!, commandChecker(command, options));
+    }
+  }
+
+  // Add or replace the checker for a language
+  register(language: string, checker: Checker) {
+    this.checkers.set(language, checker);
+  }
+
+  // Undefined when no checker is known for the language
+  async check(code: string, language: string | undefined): Promise<CheckResult | undefined> {
+    const checker = language ? this.checkers.get(language) : undefined;
+    if (!checker) {
+      return undefined;
+    }
+    const result = await checker(code, language!);
+    return result.errors.length > MAX_ERRORS
+      ? { ...result, errors: [...result.errors.slice(0, MAX_ERRORS), `... and ${result.errors.length - MAX_ERRORS} more`] }
+      : result;
+  }
+}
+
+// Run a configured command on the code in a temporary file
+function commandChecker(command: string, options: CodeValidatorOptions): Checker {
+  return async (code, language) => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-codestral-check-'));
+    try {
+      const file = path.join(dir, `candidate${sourceExtension(language)}`);
+      await fs.writeFile(file, code, 'utf-8');
+      const run = await runTestCommand(command, file, { cwd: options.cwd ?? dir, timeoutMs: options.timeoutMs ?? 30_000 });
+      return { ok: run.passed, checker: command, errors: run.passed ? [] : [run.output.trim() || `exit code ${run.exitCode}`] };
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+export interface Candidate {
+  index: number;
+  code: string;
+  finishReason?: string;
+  check?: CheckResult;
+  // Other candidates with the same code, ignoring whitespace
+  votes: number;
+}
+
+export interface RejectedCandidate extends Candidate {
+  reason: string;
+}
+
+export interface RankedCandidates {
+  // Accepted candidates, best first
+  accepted: Candidate[];
+  rejected: RejectedCandidate[];
+}
+
+// Check every candidate, reject the invalid ones and rank the rest: checked before unchecked,
+// complete before cut off at max_tokens, then by how many other candidates agree, then in the model's order
+export async function rankCandidates(
+  candidates: Array<{ index: number; code: string; finishReason?: string; checkText?: string }>,
+  check: (text: string) => Promise<CheckResult | undefined>
+): Promise<RankedCandidates> {
+  const normalized = candidates.map(candidate => candidate.code.replace(/\s+/g, ' ').trim());
+  const accepted: Candidate[] = [];
+  const rejected: RejectedCandidate[] = [];
+
+  for (const [i, candidate] of candidates.entries()) {
+    const ranked: Candidate = {
+      index: candidate.index,
+      code: candidate.code,
+      finishReason: candidate.finishReason,
+      votes: normalized.filter((text, j) => j !== i && text === normalized[i]).length,
+    };
+    if (!normalized[i]) {
+      rejected.push({ ...ranked, reason: 'The candidate is empty' });
+      continue;
+    }
+    ranked.check = await check(candidate.checkText ?? candidate.code);
+    if (ranked.check && !ranked.check.ok) {
+      rejected.push({ ...ranked, reason: `Failed the ${ranked.check.checker} check: ${ranked.check.errors.join('; ')}` });
+      continue;
+    }
+    accepted.push(ranked);
+  }
+
+  const score = (candidate: Candidate) => [
+    candidate.check ? 1 : 0,
+    candidate.finishReason === 'length' ? 0 : 1,
+    candidate.votes,
+  ];
+  accepted.sort((a, b) => {
+    const [x, y] = [score(a), score(b)];
+    return (y[0] - x[0]) || (y[1] - x[1]) || (y[2] - x[2]) || (a.index - b.index);
+  });
+  return { accepted, rejected };
+}
@@ -0,0 +1,74 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+// Record/replay of Mistral requests for repeatable offline runs
+
+export const RECORD_MODES = ['record', 'replay', 'passthrough'] as const;
+export type RecordMode = typeof RECORD_MODES[number];
+
+interface CassetteEntry {
+  endpoint: string;
+  request: unknown;
+  response: unknown;
+}
+
+// Drop transport-only fields and undefined values, and sort keys so equal requests hash equally
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key, entry]) => entry !== undefined && key !== 'stream')
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, entry]) => [key, normalize(entry)])
+    );
+  }
+  return value;
+}
+
+export function requestKey(endpoint: string, request: unknown): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ endpoint, request: normalize(request) }))
+    .digest('hex');
+}
+
+export class Cassette {
+  constructor(readonly mode: RecordMode, private dir: string) {}
+
+  private file(key: string) {
+    return path.join(this.dir, `${key}.json`);
+  }
+
+  // Answer from the cassette in replay mode, otherwise call `fn` (and save its result when recording)
+  async intercept<T>(endpoint: string, request: unknown, fn: () => Promise<T>): Promise<{ response: T; replayed: boolean }> {
+    if (this.mode === 'passthrough') {
+      return { response: await fn(), replayed: false };
+    }
+
+    const key = requestKey(endpoint, request);
+
+    if (this.mode === 'replay') {
+      let raw: string;
+      try {
+        raw = await fs.readFile(this.file(key), 'utf-8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          throw new Error(`No recorded response for ${endpoint} request ${key} in ${this.dir}. Re-record with MISTRAL_RECORD_MODE=record.`);
+        }
+        throw error;
+      }
+      const entry = JSON.parse(raw) as CassetteEntry;
+      return { response: entry.response as T, replayed: true };
+    }
+
+    const response = await fn();
+    const entry: CassetteEntry = { endpoint, request: normalize(request), response };
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(this.file(key), JSON.stringify(entry, null, 2) + '\n', 'utf-8');
+    return { response, replayed: false };
+  }
+}
@@ -0,0 +1,93 @@
+// Helpers for fill-in-the-middle requests made from a file and a cursor position
+
+export type Cursor =
+  | { line: number; column: number }
+  | { offset: number };
+
+export interface FimContext {
+  prompt: string;
+  suffix: string;
+  // Character index of the cursor in the original text
+  index: number;
+}
+
+// Rough characters-per-token ratio used to turn a token budget into a character budget
+const CHARS_PER_TOKEN = 4;
+
+// Share of the budget given to the code before the cursor
+const PREFIX_SHARE = 0.75;
+
+// Convert a cursor (1-based line/column, or a 0-based UTF-8 byte offset) into a character index
+export function cursorIndex(text: string, cursor: Cursor): number {
+  if ('offset' in cursor) {
+    const bytes = Buffer.from(text, 'utf-8');
+    if (!Number.isInteger(cursor.offset) || cursor.offset < 0 || cursor.offset > bytes.length) {
+      throw new Error(`Offset ${cursor.offset} is outside the file (0-${bytes.length})`);
+    }
+    const before = bytes.subarray(0, cursor.offset).toString('utf-8');
+    // A cut in the middle of a multi-byte character decodes to a replacement character of a different length
+    if (Buffer.byteLength(before, 'utf-8') !== cursor.offset) {
+      throw new Error(`Offset ${cursor.offset} falls inside a multi-byte character`);
+    }
+    return before.length;
+  }
+
+  const lines = text.split('\n');
+  if (!Number.isInteger(cursor.line) || cursor.line < 1 || cursor.line > lines.length) {
+    throw new Error(`Line ${cursor.line} is outside the file (1-${lines.length})`);
+  }
+  const lineText = lines[cursor.line - 1].replace(/\r$/, '');
+  if (!Number.isInteger(cursor.column) || cursor.column < 1 || cursor.column > lineText.length + 1) {
+    throw new Error(`Column ${cursor.column} is outside line ${cursor.line} (1-${lineText.length + 1})`);
+  }
+
+  const lineStart = lines
+    .slice(0, cursor.line - 1)
+    .reduce((sum, line) => sum + line.length + 1, 0);
+  return lineStart + cursor.column - 1;
+}
+
+// Keep the end of the prefix and the start of the suffix, cutting at line boundaries where possible
+function keepTail(text: string, budget: number): string {
+  if (text.length <= budget) {
+    return text;
+  }
+  const cut = text.slice(text.length - budget);
+  const newline = cut.indexOf('\n');
+  return newline === -1 ? cut : cut.slice(newline + 1);
+}
+
+function keepHead(text: string, budget: number): string {
+  if (text.length <= budget) {
+    return text;
+  }
+  const cut = text.slice(0, budget);
+  const newline = cut.lastIndexOf('\n');
+  return newline === -1 ? cut : cut.slice(0, newline + 1);
+}
+
+// Split text at the cursor and trim both sides to fit the token budget
+export function splitAtCursor(text: string, cursor: Cursor, contextTokens: number): FimContext {
+  const index = cursorIndex(text, cursor);
+  const budget = contextTokens * CHARS_PER_TOKEN;
+
+  const before = text.slice(0, index);
+  const after = text.slice(index);
+
+  // Unused budget on one side goes to the other
+  let prefixBudget = Math.floor(budget * PREFIX_SHARE);
+  let suffixBudget = budget - prefixBudget;
+  if (after.length < suffixBudget) {
+    prefixBudget += suffixBudget - after.length;
+    suffixBudget = after.length;
+  } else if (before.length < prefixBudget) {
+    suffixBudget += prefixBudget - before.length;
+    prefixBudget = before.length;
+  }
+
+  return {
+    prompt: keepTail(before, prefixBudget),
+    suffix: keepHead(after, suffixBudget),
+    index,
+  };
+}
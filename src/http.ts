@@ -0,0 +1,238 @@
+import http from 'http';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createLogger } from './logger.js';
+
+const log = createLogger('http');
+
+// MCP over Streamable HTTP, so one shared server can serve many authenticated clients
+
+export interface HttpServerOptions {
+  port?: number;
+  host?: string;
+  // Accepted as `Authorization: Bearer <token>` or `X-API-Key: <token>`
+  tokens: string[];
+  // Path of the MCP endpoint
+  path?: string;
+  // Sessions without requests or open streams for this long are closed
+  sessionIdleMs?: number;
+  // Largest accepted request body
+  maxBodyBytes?: number;
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  // Digest of the token that created the session; other tokens cannot use it
+  owner: Buffer;
+  lastUsed: number;
+  // Responses still open, such as a GET stream for server notifications; the session is not idle while any are
+  openResponses: number;
+}
+
+const digest = (token: string) => crypto.createHash('sha256').update(token).digest();
+
+const jsonRpcError = (code: number, message: string) => ({ jsonrpc: '2.0', error: { code, message }, id: null });
+
+export class McpHttpServer {
+  private server: http.Server;
+  private sessions = new Map<string, HttpSession>();
+  private tokens: Buffer[];
+  private sweeper?: NodeJS.Timeout;
+  private closing = false;
+  private readonly started = Date.now();
+
+  // `createMcpServer` is called once per client session, so sessions share no protocol state. It gets an id
+  // derived from the client's token, so the server can keep each client's data apart
+  constructor(private createMcpServer: (owner: string) => Server, private options: HttpServerOptions) {
+    if (options.tokens.length === 0) {
+      throw new Error('The HTTP transport needs at least one access token');
+    }
+    this.tokens = options.tokens.map(digest);
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        log.error("Error handling HTTP request", { error });
+        if (!res.headersSent) {
+          send(res, 500, jsonRpcError(-32603, 'Internal server error'));
+        } else {
+          res.end();
+        }
+      });
+    });
+  }
+
+  get url(): string {
+    const address = this.server.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error('HTTP server is not listening');
+    }
+    return `http://${this.options.host ?? '127.0.0.1'}:${address.port}${this.options.path ?? '/mcp'}`;
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  start(): Promise<string> {
+    const idleMs = this.options.sessionIdleMs ?? 30 * 60 * 1000;
+    this.sweeper = setInterval(() => {
+      for (const [id, session] of this.sessions) {
+        if (session.openResponses === 0 && Date.now() - session.lastUsed > idleMs) {
+          this.closeSession(id).catch(error => log.warning("Error closing idle session", { error }));
+        }
+      }
+    }, Math.min(idleMs, 60_000));
+    this.sweeper.unref();
+
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port ?? 3000, this.options.host ?? '127.0.0.1', () => {
+        this.server.off('error', reject);
+        resolve(this.url);
+      });
+    });
+  }
+
+  // Stop accepting requests, close every session, then the remaining connections
+  async close(graceMs: number = 5000): Promise<void> {
+    this.closing = true;
+    clearInterval(this.sweeper);
+    const stopped = new Promise<void>(resolve => this.server.close(() => resolve()));
+    await Promise.allSettled([...this.sessions.keys()].map(id => this.closeSession(id)));
+    const timer = setTimeout(() => this.server.closeAllConnections(), graceMs);
+    this.server.closeIdleConnections();
+    await stopped;
+    clearTimeout(timer);
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    // Unauthenticated so load balancers can probe it; reveals nothing but liveness
+    if (url.pathname === '/health') {
+      return send(res, this.closing ? 503 : 200, {
+        status: this.closing ? 'shutting_down' : 'ok',
+        sessions: this.sessions.size,
+        uptimeSeconds: Math.round((Date.now() - this.started) / 1000),
+      });
+    }
+
+    if (url.pathname !== (this.options.path ?? '/mcp')) {
+      return send(res, 404, { error: `Not found: ${url.pathname}` });
+    }
+    if (this.closing) {
+      return send(res, 503, jsonRpcError(-32000, 'Server is shutting down'));
+    }
+
+    const owner = this.authenticate(req);
+    if (!owner) {
+      return send(res, 401, jsonRpcError(-32001, 'Unauthorized'), { 'WWW-Authenticate': 'Bearer' });
+    }
+
+    const body = req.method === 'POST' ? await readJson(req, this.options.maxBodyBytes ?? 4 * 1024 * 1024) : undefined;
+    if (body instanceof Error) {
+      return send(res, body.message === 'too large' ? 413 : 400, jsonRpcError(-32700, `Invalid request body: ${body.message}`));
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      // Another client's session is reported as unknown rather than forbidden
+      if (!session || !crypto.timingSafeEqual(session.owner, owner)) {
+        return send(res, 404, jsonRpcError(-32001, 'Session not found'));
+      }
+      session.lastUsed = Date.now();
+      session.openResponses++;
+      res.once('close', () => {
+        session.openResponses--;
+        session.lastUsed = Date.now();
+      });
+      await session.transport.handleRequest(req, res, body);
+      if (req.method === 'DELETE') {
+        await this.closeSession(sessionId);
+      }
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      return send(res, 400, jsonRpcError(-32000, 'Bad request: send an initialize request to start a session'));
+    }
+
+    const server = this.createMcpServer(owner.toString('hex').slice(0, 32));
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: id => {
+        this.sessions.set(id, { transport, server, owner, lastUsed: Date.now(), openResponses: 0 });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  // The digest of the presented token when it is one of the configured ones
+  private authenticate(req: http.IncomingMessage): Buffer | undefined {
+    const authorization = req.headers.authorization;
+    const apiKey = req.headers['x-api-key'];
+    const token = authorization?.startsWith('Bearer ')
+      ? authorization.slice('Bearer '.length).trim()
+      : typeof apiKey === 'string' ? apiKey.trim() : undefined;
+    if (!token) {
+      return undefined;
+    }
+    const presented = digest(token);
+    return this.tokens.some(known => crypto.timingSafeEqual(known, presented)) ? presented : undefined;
+  }
+
+  private async closeSession(id: string) {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(id);
+    await session.server.close();
+  }
+}
+
+// Parsed JSON body, or the error that prevented parsing it
+function readJson(req: http.IncomingMessage, maxBytes: number): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    let bytes = 0;
+    let tooLarge = false;
+    req.setEncoding('utf-8');
+    req.on('data', (chunk: string) => {
+      bytes += Buffer.byteLength(chunk);
+      if (bytes > maxBytes) {
+        tooLarge = true;
+        data = '';
+      }
+      if (!tooLarge) {
+        data += chunk;
+      }
+    });
+    req.on('end', () => {
+      if (tooLarge) {
+        return resolve(new Error('too large'));
+      }
+      try {
+        resolve(data ? JSON.parse(data) : undefined);
+      } catch (error) {
+        resolve(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
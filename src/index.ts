@@ -1,393 +1,378 @@
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { ListToolsRequestSchema, CallToolRequestSchema, ListResourcesRequestSchema } from "@modelcontextprotocol/sdk/types.js";
-import { config } from "dotenv";
+import { config, parse as parseDotenv } from "dotenv";
+import { parseArgs } from "util";
 import { z } from "zod";
-import { getMistralAPI, CompletionResponse, MISTRAL_MODELS, MistralModel } from './mistral.js';
-import fs from 'fs/promises';
+import { MistralAPI } from './mistral.js';
+import { RECORD_MODES } from './cassette.js';
+import { Workspace } from './workspace.js';
+import { WritePolicy, OVERWRITE_MODES, DEFAULT_DENY_PATTERNS } from './policy.js';
 import path from 'path';
+import os from 'os';
+import { SessionStore } from './sessions.js';
+import { SemanticIndex } from './semantic.js';
+import { PromptLibrary } from './prompts.js';
+import { ModelConfig, ModelRegistry } from './models.js';
+import { UsageLedger } from './usage.js';
+import { ResponseCache } from './cache.js';
+import { CodeValidator } from './candidates.js';
+import crypto from 'crypto';
+import { createServer, ServerOptions } from './server.js';
+import { McpHttpServer } from './http.js';
+import { configureLogging, createLogger, LOG_LEVELS } from './logger.js';
+import { Scrubber, SCRUB_MODES } from './scrub.js';
+import { parseProviders, ProviderConfig, reloadKeysOn, splitKeys } from './providers.js';
+import fs from 'fs/promises';
+
+// Variables set before .env is loaded take precedence over it, also when keys are reloaded
+const inherited = { ...process.env };
 
 // Load environment variables
 config();
 
-// Validate required environment variables
-const envSchema = z.object({
-  MISTRAL_API_KEY: z.string().min(1),
-});
-
-const env = envSchema.parse(process.env);
-
-// Initialize Mistral API
-let mistralApi: ReturnType<typeof getMistralAPI>;
-
-try {
-  mistralApi = getMistralAPI(env.MISTRAL_API_KEY);
-  // Validate API key on startup
-  await mistralApi.validateApiKey();
-  console.error("Successfully connected to Mistral API");
-} catch (error) {
-  console.error("Failed to initialize Mistral API:", error instanceof Error ? error.message : error);
-  process.exit(1);
-}
-
-// Define server configuration
-const server = new Server(
-  {
-    name: "mcp-codestral",
-    version: "1.0.0",
+// Command line flags take precedence over the environment
+const { values: flags } = parseArgs({
+  options: {
+    transport: { type: 'string' },
+    http: { type: 'boolean' },
+    port: { type: 'string' },
+    host: { type: 'string' },
+    profile: { type: 'string' },
   },
-  {
-    capabilities: {
-      tools: {},
-      resources: {},
-    },
-  }
-);
-
-// Validate tool input schemas
-const CodeCompletionSchema = z.object({
-  code: z.string(),
-  language: z.string().optional(),
-  task: z.enum(['complete', 'fix', 'test', 'fim']),
-  model: z.enum([MISTRAL_MODELS.CODESTRAL, MISTRAL_MODELS.CODESTRAL_MAMBA]).optional(),
-  suffix: z.string().optional(),
-  temperature: z.number().min(0).max(1).optional(),
-  top_p: z.number().min(0).max(1).optional(),
-  max_tokens: z.number().positive().optional(),
-  stop: z.array(z.string()).optional(),
-  outputPath: z.string().optional(),
-  streamToFile: z.boolean().optional(),
+  strict: false,
 });
 
-const ChatSchema = z.object({
-  messages: z.array(z.object({
-    role: z.enum(['system', 'user', 'assistant']),
-    content: z.string(),
-  })),
-  model: z.enum([
-    MISTRAL_MODELS.MISTRAL_LARGE,
-    MISTRAL_MODELS.MISTRAL_SMALL,
-    MISTRAL_MODELS.MINISTRAL_8B,
-    MISTRAL_MODELS.MINISTRAL_3B,
-  ]).optional(),
-  temperature: z.number().min(0).max(1).optional(),
-  top_p: z.number().min(0).max(1).optional(),
-  max_tokens: z.number().positive().optional(),
-  stop: z.array(z.string()).optional(),
+// Validate required environment variables
+const envSchema = z.object({
+  // Several keys, separated by commas, are used in turn when one is rejected or rate limited
+  MISTRAL_API_KEY: z.string().min(1).optional(),
+  // Keys for the Codestral endpoint when they differ from MISTRAL_API_KEY
+  CODESTRAL_API_KEY: z.string().min(1).optional(),
+  CODESTRAL_API_BASE: z.string().url().optional(),
+  MISTRAL_API_BASE: z.string().url().optional(),
+  MISTRAL_VALIDATE_ON_STARTUP: z.enum(['true', 'false']).optional(),
+  MISTRAL_RECORD_MODE: z.enum(RECORD_MODES).default('passthrough'),
+  MISTRAL_CASSETTE_DIR: z.string().default('cassettes'),
+  // Directories exposed as resources, separated like PATH entries
+  WORKSPACE_ROOTS: z.string().optional(),
+  WORKSPACE_PAGE_SIZE: z.coerce.number().int().positive().optional(),
+  FIM_CONTEXT_TOKENS: z.coerce.number().int().positive().optional(),
+  // Where the server keeps its own files (audit log, chat sessions, ...)
+  MCP_CODESTRAL_DATA_DIR: z.string().default(path.join(os.homedir(), '.mcp-codestral')),
+  // Directories the server may write to (defaults to the workspace roots)
+  WRITE_ROOTS: z.string().optional(),
+  // Comma-separated gitignore-style patterns that may never be written
+  WRITE_DENY: z.string().optional(),
+  WRITE_OVERWRITE: z.enum(OVERWRITE_MODES).default('backup'),
+  WRITE_AUDIT_LOG: z.string().optional(),
+  // Where the semantic search index is kept (defaults to one file per set of workspace roots)
+  SEMANTIC_INDEX_FILE: z.string().optional(),
+  // JSON file adding models, capabilities and aliases to the built-in registry
+  MODELS_CONFIG: z.string().optional(),
+  // Ask the API which models this key can use at startup
+  MODELS_DISCOVER: z.enum(['true', 'false']).default('false'),
+  // Profile of the model config to apply, e.g. one that sends everything to a self-hosted server
+  MODEL_PROFILE: z.string().optional(),
+  // Directory of <task>.json prompt templates, reloaded when it changes
+  PROMPTS_DIR: z.string().optional(),
+  // Test command for code_completion's run_tests, e.g. "npx jest {file}"
+  TEST_COMMAND: z.string().optional(),
+  // JSON object of per-language test commands, e.g. {"python": "pytest {file}"}
+  TEST_COMMANDS: z.string().optional().transform((value, ctx) => {
+    try {
+      return z.record(z.string()).parse(value ? JSON.parse(value) : {});
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'TEST_COMMANDS must be a JSON object of strings' });
+      return z.NEVER;
+    }
+  }),
+  TEST_TIMEOUT_MS: z.coerce.number().int().positive().default(120000),
+  TEST_REPAIR_ROUNDS: z.coerce.number().int().min(0).default(2),
+  // JSON object of per-language syntax checks for code_completion candidates, e.g. {"python": "python -m py_compile {file}"}
+  CHECK_COMMANDS: z.string().optional().transform((value, ctx) => {
+    try {
+      return z.record(z.string()).parse(value ? JSON.parse(value) : {});
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'CHECK_COMMANDS must be a JSON object of strings' });
+      return z.NEVER;
+    }
+  }),
+  CHECK_TIMEOUT_MS: z.coerce.number().int().positive().default(30000),
+  // What happens to secrets found in code before it is sent to the API
+  SCRUB_MODE: z.enum(SCRUB_MODES).default('placeholder'),
+  // Comma-separated built-in PII patterns to scrub as well, e.g. "email,phone"
+  SCRUB_PII: z.string().optional(),
+  // JSON object of further patterns to scrub, by name, e.g. {"employee_id": "EMP-\\d{6}"}
+  SCRUB_PATTERNS: z.string().optional().transform((value, ctx) => {
+    try {
+      const patterns = z.record(z.string()).parse(value ? JSON.parse(value) : {});
+      Object.values(patterns).forEach(pattern => new RegExp(pattern));
+      return patterns;
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'SCRUB_PATTERNS must be a JSON object of regular expressions' });
+      return z.NEVER;
+    }
+  }),
+  // JSON lines file recording the tokens and estimated cost of every call
+  USAGE_LOG: z.string().optional(),
+  // JSON object of USD prices per million tokens, e.g. {"codestral-latest": {"input": 0.3, "output": 0.9}}
+  USAGE_PRICES: z.string().optional().transform((value, ctx) => {
+    try {
+      return z.record(z.object({ input: z.number().min(0), output: z.number().min(0) })).parse(value ? JSON.parse(value) : {});
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'USAGE_PRICES must be a JSON object of {"input", "output"} prices' });
+      return z.NEVER;
+    }
+  }),
+  // Spending limits in USD; calls fail once they are reached
+  USAGE_DAILY_BUDGET: z.coerce.number().positive().optional(),
+  USAGE_MONTHLY_BUDGET: z.coerce.number().positive().optional(),
+  // Cache deterministic completions in memory, or in memory and on disk
+  RESPONSE_CACHE: z.enum(['off', 'memory', 'disk']).default('off'),
+  RESPONSE_CACHE_DIR: z.string().optional(),
+  RESPONSE_CACHE_TTL_MS: z.coerce.number().int().positive().default(86400000),
+  RESPONSE_CACHE_MAX_MB: z.coerce.number().positive().default(50),
+  // Also cache requests with a temperature above 0
+  RESPONSE_CACHE_ANY_TEMPERATURE: z.enum(['true', 'false']).default('false'),
+  // stdio for a single local client, http for a shared server
+  MCP_TRANSPORT: z.enum(['stdio', 'http']).default('stdio'),
+  MCP_HTTP_PORT: z.coerce.number().int().min(0).max(65535).default(3000),
+  MCP_HTTP_HOST: z.string().default('127.0.0.1'),
+  // Comma-separated tokens clients must present to the HTTP transport
+  MCP_HTTP_TOKENS: z.string().optional(),
+  MCP_HTTP_SESSION_IDLE_MS: z.coerce.number().int().positive().default(1800000),
+  // Whether old session turns are summarized or simply dropped near the context limit
+  SESSION_COMPACTION: z.enum(['summarize', 'trim']).default('summarize'),
+  // How long each API request may wait for a response; tool calls can override it with timeout_ms
+  MISTRAL_TIMEOUT_MS: z.coerce.number().int().positive().optional(),
+  MISTRAL_MAX_RETRIES: z.coerce.number().int().min(0).optional(),
+  MISTRAL_RETRY_BASE_DELAY_MS: z.coerce.number().int().positive().optional(),
+  MISTRAL_RETRY_MAX_DELAY_MS: z.coerce.number().int().positive().optional(),
+  MISTRAL_REQUESTS_PER_MINUTE: z.coerce.number().int().positive().optional(),
+  MISTRAL_TOKENS_PER_MINUTE: z.coerce.number().int().positive().optional(),
+  // Least severe level written to stderr and LOG_FILE; MCP clients pick their own with logging/setLevel
+  LOG_LEVEL: z.enum(LOG_LEVELS).default('info'),
+  LOG_FORMAT: z.enum(['text', 'json']).default('text'),
+  LOG_FILE: z.string().optional(),
+  // Longer strings in log records are cut
+  LOG_MAX_FIELD_CHARS: z.coerce.number().int().positive().default(500),
 });
 
-// Format Mistral API response
-function formatResponse(completion: CompletionResponse): string {
-  if (!completion.choices || completion.choices.length === 0) {
-    throw new Error('Invalid completion response');
-  }
-
-  const content = completion.choices[0].message.content;
+const env = envSchema.parse({
+  ...process.env,
+  ...(flags.http ? { MCP_TRANSPORT: 'http' } : {}),
+  ...(typeof flags.transport === 'string' ? { MCP_TRANSPORT: flags.transport } : {}),
+  ...(typeof flags.port === 'string' ? { MCP_HTTP_PORT: flags.port } : {}),
+  ...(typeof flags.host === 'string' ? { MCP_HTTP_HOST: flags.host } : {}),
+  ...(typeof flags.profile === 'string' ? { MODEL_PROFILE: flags.profile } : {}),
+});
 
-  // Extract code from markdown code blocks if present
-  const codeBlockRegex = /```[\w]*\n([\s\S]*?)```/g;
-  const matches = [...content.matchAll(codeBlockRegex)];
+configureLogging({ level: env.LOG_LEVEL, format: env.LOG_FORMAT, file: env.LOG_FILE, maxFieldChars: env.LOG_MAX_FIELD_CHARS });
+const log = createLogger('main');
 
-  if (matches.length > 0) {
-    return matches.map(match => match[1].trim()).join('\n\n');
+// The model config also names the providers its models are served by, and the profiles
+let modelConfig: (ModelConfig & { providers?: unknown }) | undefined;
+let providers: Record<string, ProviderConfig> = {};
+if (env.MODELS_CONFIG) {
+  try {
+    modelConfig = JSON.parse(await fs.readFile(env.MODELS_CONFIG, 'utf-8'));
+    providers = parseProviders(modelConfig?.providers);
+  } catch (error) {
+    log.critical(`Failed to load model config ${env.MODELS_CONFIG}`, { error });
+    process.exit(1);
   }
-
-  return content;
 }
 
-// Tool Implementation
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: "code_completion",
-        description: "Complete code, fix bugs, or generate tests using Mistral Codestral",
-        inputSchema: {
-          type: "object",
-          properties: {
-            code: {
-              type: "string",
-              description: "The code to process",
-            },
-            language: {
-              type: "string",
-              description: "Programming language (optional)",
-            },
-            task: {
-              type: "string",
-              enum: ["complete", "fix", "test", "fim"],
-              description: "Type of task: 'complete' for code completion, 'fix' for bug fixing, 'test' for test generation, 'fim' for fill-in-the-middle",
-            },
-            model: {
-              type: "string",
-              enum: [MISTRAL_MODELS.CODESTRAL, MISTRAL_MODELS.CODESTRAL_MAMBA],
-              description: "Model to use (optional, defaults to codestral-latest)",
-            },
-            suffix: {
-              type: "string",
-              description: "Code that should come after the completion (for FIM task)",
-            },
-            temperature: {
-              type: "number",
-              minimum: 0,
-              maximum: 1,
-              description: "Sampling temperature (optional, defaults to 0.7)",
-            },
-            top_p: {
-              type: "number",
-              minimum: 0,
-              maximum: 1,
-              description: "Nucleus sampling threshold (optional, defaults to 1)",
-            },
-            max_tokens: {
-              type: "number",
-              minimum: 1,
-              description: "Maximum number of tokens to generate (optional, defaults to 1000)",
-            },
-            stop: {
-              type: "array",
-              items: {
-                type: "string"
-              },
-              description: "Stop sequences to end generation (optional)",
-            },
-            outputPath: {
-              type: "string",
-              description: "Path to save the generated code (optional)",
-            },
-            streamToFile: {
-              type: "boolean",
-              description: "If true, saves result to file and returns success message only (optional)",
-            }
-          },
-          required: ["code", "task"],
-        },
-      },
-      {
-        name: "chat",
-        description: "General-purpose chat completion for reasoning, analysis, planning, and understanding using Mistral's general models",
-        inputSchema: {
-          type: "object",
-          properties: {
-            messages: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  role: {
-                    type: "string",
-                    enum: ["system", "user", "assistant"],
-                    description: "The role of the message sender"
-                  },
-                  content: {
-                    type: "string",
-                    description: "The content of the message"
-                  }
-                },
-                required: ["role", "content"]
-              },
-              description: "Array of conversation messages"
-            },
-            model: {
-              type: "string",
-              enum: [
-                MISTRAL_MODELS.MISTRAL_LARGE,
-                MISTRAL_MODELS.MISTRAL_SMALL,
-                MISTRAL_MODELS.MINISTRAL_8B,
-                MISTRAL_MODELS.MINISTRAL_3B,
-              ],
-              description: "Model to use (optional, defaults to mistral-large-latest)"
-            },
-            temperature: {
-              type: "number",
-              minimum: 0,
-              maximum: 1,
-              description: "Sampling temperature (optional, defaults to 0.7)"
-            },
-            top_p: {
-              type: "number",
-              minimum: 0,
-              maximum: 1,
-              description: "Nucleus sampling threshold (optional, defaults to 1)"
-            },
-            max_tokens: {
-              type: "number",
-              minimum: 1,
-              description: "Maximum number of tokens to generate (optional, defaults to 1000)"
-            },
-            stop: {
-              type: "array",
-              items: {
-                type: "string"
-              },
-              description: "Stop sequences to end generation (optional)"
-            }
-          },
-          required: ["messages"],
-        },
-      },
-    ],
-  };
+// Initialize Mistral API
+let mistralApi: MistralAPI;
+const models = new ModelRegistry();
+const usage = new UsageLedger({
+  file: env.USAGE_LOG ?? path.join(env.MCP_CODESTRAL_DATA_DIR, 'usage.jsonl'),
+  prices: env.USAGE_PRICES,
+  budgets: { daily: env.USAGE_DAILY_BUDGET, monthly: env.USAGE_MONTHLY_BUDGET },
+});
+const cache = env.RESPONSE_CACHE === 'off' ? undefined : new ResponseCache({
+  dir: env.RESPONSE_CACHE === 'disk' ? env.RESPONSE_CACHE_DIR ?? path.join(env.MCP_CODESTRAL_DATA_DIR, 'cache') : undefined,
+  ttlMs: env.RESPONSE_CACHE_TTL_MS,
+  maxBytes: Math.round(env.RESPONSE_CACHE_MAX_MB * 1024 * 1024),
+  anyTemperature: env.RESPONSE_CACHE_ANY_TEMPERATURE === 'true',
 });
 
-// Handle tool execution
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+try {
+  mistralApi = new MistralAPI(env.MISTRAL_API_KEY, {
+    models,
+    usage,
+    cache,
+    codestralBaseUrl: env.CODESTRAL_API_BASE,
+    mistralBaseUrl: env.MISTRAL_API_BASE,
+    codestralApiKey: env.CODESTRAL_API_KEY,
+    providers,
+    timeoutMs: env.MISTRAL_TIMEOUT_MS,
+    retry: {
+      maxRetries: env.MISTRAL_MAX_RETRIES,
+      baseDelayMs: env.MISTRAL_RETRY_BASE_DELAY_MS,
+      maxDelayMs: env.MISTRAL_RETRY_MAX_DELAY_MS,
+    },
+    rateLimit: {
+      requestsPerMinute: env.MISTRAL_REQUESTS_PER_MINUTE,
+      tokensPerMinute: env.MISTRAL_TOKENS_PER_MINUTE,
+    },
+    recording: {
+      mode: env.MISTRAL_RECORD_MODE,
+      dir: env.MISTRAL_CASSETTE_DIR,
+    },
+  });
 
-  if (name === "chat") {
+  // Discovered models first, so the config file has the last word on capabilities and aliases
+  if (env.MODELS_DISCOVER === 'true' && env.MISTRAL_RECORD_MODE !== 'replay') {
     try {
-      const params = ChatSchema.parse(args);
-
-      // Use general Mistral API for chat
-      const completion = await mistralApi.chatCompletion(params.messages, {
-        model: params.model || MISTRAL_MODELS.MISTRAL_LARGE,
-        temperature: params.temperature,
-        top_p: params.top_p,
-        max_tokens: params.max_tokens,
-        stop: params.stop,
-      });
-
-      // Return the response content directly without code extraction
-      const content = completion.choices[0].message.content;
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: content,
-          },
-        ],
-      };
+      models.addRemote(await mistralApi.listModels());
     } catch (error) {
-      console.error("Error processing chat request:", error);
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`,
-          },
-        ],
-        isError: true,
-      };
+      log.warning("Could not list models, using the configured ones", { error });
     }
   }
+  if (modelConfig) {
+    models.apply(modelConfig);
+  }
+  if (env.MODEL_PROFILE) {
+    models.useProfile(env.MODEL_PROFILE);
+    log.notice(`Using model profile ${env.MODEL_PROFILE}`);
+  }
 
-  if (name === "code_completion") {
-    try {
-      const params = CodeCompletionSchema.parse(args);
-
-      let completion: CompletionResponse;
+  // Validate API key on startup (can be skipped where the API is unreachable, e.g. in CI;
+  // replay mode never talks to the API). The check goes to the provider of the default model
+  if (env.MISTRAL_VALIDATE_ON_STARTUP !== 'false' && env.MISTRAL_RECORD_MODE !== 'replay') {
+    await mistralApi.validateApiKey();
+    log.notice("Successfully connected to Mistral API");
+  }
+} catch (error) {
+  log.critical("Failed to initialize Mistral API", { error });
+  process.exit(1);
+}
 
-      if (params.task === 'fim') {
-        // Use FIM endpoint for fill-in-the-middle task
-        completion = await mistralApi.fimCompletion(params.code, {
-          suffix: params.suffix,
-          temperature: params.temperature,
-          top_p: params.top_p,
-          max_tokens: params.max_tokens,
-          stop: params.stop,
-        });
-      } else {
-        // Get formatted messages for other tasks
-        const messages = mistralApi.createPrompt(
-          params.code,
-          params.language,
-          params.task,
-          params.suffix
-        );
+// Files exposed as MCP resources
+const splitPaths = (value: string) => value.split(path.delimiter).filter(Boolean);
+const workspace = new Workspace(
+  env.WORKSPACE_ROOTS ? splitPaths(env.WORKSPACE_ROOTS) : [process.cwd()],
+  { pageSize: env.WORKSPACE_PAGE_SIZE }
+);
 
-        // Make API call to Mistral
-        completion = await mistralApi.chatCompletion(messages, {
-          model: params.model,
-          temperature: params.temperature,
-          top_p: params.top_p,
-          max_tokens: params.max_tokens,
-          stop: params.stop,
-        });
-      }
-      const formattedResponse = formatResponse(completion);
+// Every file the server writes goes through this policy
+const writePolicy = new WritePolicy({
+  roots: env.WRITE_ROOTS ? splitPaths(env.WRITE_ROOTS) : workspace.roots,
+  deny: env.WRITE_DENY ? env.WRITE_DENY.split(',').map(pattern => pattern.trim()).filter(Boolean) : DEFAULT_DENY_PATTERNS,
+  overwrite: env.WRITE_OVERWRITE,
+  auditLog: env.WRITE_AUDIT_LOG ?? path.join(env.MCP_CODESTRAL_DATA_DIR, 'audit.log'),
+});
 
-      // Handle file operations and response
-      if (params.outputPath) {
-        try {
-          await fs.mkdir(path.dirname(params.outputPath), { recursive: true });
-          await fs.writeFile(params.outputPath, formattedResponse, 'utf-8');
+// Chat sessions persist across restarts
+const sessions = new SessionStore(path.join(env.MCP_CODESTRAL_DATA_DIR, 'sessions'));
 
-          // If streamToFile is true, return success message only
-          if (params.streamToFile) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Successfully saved to ${params.outputPath}`,
-                },
-              ],
-            };
-          }
-        } catch (error) {
-          console.error("Error saving to file:", error);
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Error saving to file: ${error instanceof Error ? error.message : 'Unknown error occurred'}`,
-              },
-            ],
-            isError: true,
-          };
-        }
-      }
+// Secrets are always looked for unless scrubbing is off; personal data only when enabled
+const scrubber = new Scrubber({
+  mode: env.SCRUB_MODE,
+  pii: env.SCRUB_PII?.split(',').map(name => name.trim()).filter(Boolean),
+  patterns: env.SCRUB_PATTERNS,
+});
 
-      // Return the formatted response if not streaming to file
-      return {
-        content: [
-          {
-            type: "text",
-            text: formattedResponse,
-          },
-        ],
-      };
-    } catch (error) {
-      console.error("Error processing code completion request:", error);
+// Vector index for semantic_search, built lazily on the first search
+const workspaceId = crypto.createHash('sha256').update(workspace.roots.join(path.delimiter)).digest('hex').slice(0, 16);
+const semanticIndex = new SemanticIndex(workspace, mistralApi, {
+  file: env.SEMANTIC_INDEX_FILE ?? path.join(env.MCP_CODESTRAL_DATA_DIR, 'index', `${workspaceId}.json`),
+  scrubber,
+});
 
-      // Return a more user-friendly error message
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`,
-          },
-        ],
-        isError: true,
-      };
+// Built-in task prompts, overridden or extended by the team's templates
+const prompts = new PromptLibrary(env.PROMPTS_DIR ?? path.join(env.MCP_CODESTRAL_DATA_DIR, 'prompts'));
+await prompts.load();
+
+// Generated tests are only run when a command is configured
+const testCommands = {
+  ...Object.fromEntries(Object.entries(env.TEST_COMMANDS).map(([language, command]) => [language.toLowerCase(), command])),
+  ...(env.TEST_COMMAND ? { '*': env.TEST_COMMAND } : {}),
+};
+const testRunner = Object.keys(testCommands).length > 0
+  ? { commands: testCommands, cwd: workspace.roots[0], timeoutMs: env.TEST_TIMEOUT_MS, maxRepairRounds: env.TEST_REPAIR_ROUNDS }
+  : undefined;
+
+// Candidates are checked with the built-in parsers plus the configured commands
+const validator = new CodeValidator({ commands: env.CHECK_COMMANDS, cwd: workspace.roots[0], timeoutMs: env.CHECK_TIMEOUT_MS });
+
+const serverOptions: ServerOptions = {
+  workspace,
+  fimContextTokens: env.FIM_CONTEXT_TOKENS,
+  writePolicy,
+  sessions,
+  sessionCompaction: env.SESSION_COMPACTION,
+  semanticIndex,
+  testRunner,
+  prompts,
+  usage,
+  validator,
+  scrubber,
+};
+
+// The keys as .env and the variables the model config names hold them now, so keys can be rotated without a restart
+async function currentKeys(): Promise<Record<string, string[]>> {
+  const dotenv = await fs.readFile('.env', 'utf-8').then(parseDotenv, () => ({}));
+  const fresh = { ...process.env, ...dotenv, ...inherited };
+  const keys: Record<string, string[]> = {
+    mistral: splitKeys(fresh.MISTRAL_API_KEY),
+    codestral: splitKeys(fresh.CODESTRAL_API_KEY ?? fresh.MISTRAL_API_KEY),
+  };
+  if (env.MODELS_CONFIG) {
+    const reloaded = JSON.parse(await fs.readFile(env.MODELS_CONFIG, 'utf-8'));
+    for (const [name, provider] of Object.entries(parseProviders(reloaded?.providers, fresh))) {
+      keys[name] = provider.apiKeys;
     }
   }
+  return keys;
+}
 
-  throw new Error(`Unknown tool: ${name}`);
-});
-
-// Add some basic resource handlers for code files
-server.setRequestHandler(ListResourcesRequestSchema, async () => {
-  return {
-    resources: [
-      {
-        uri: "file://code",
-        name: "Code Files",
-        description: "Access to code files in the workspace"
-      }
-    ]
+// Serve many clients over HTTP, each in its own MCP session, until the process is told to stop
+async function serveHttp() {
+  const tokens = (env.MCP_HTTP_TOKENS ?? '').split(',').map(token => token.trim()).filter(Boolean);
+  if (tokens.length === 0) {
+    throw new Error("MCP_HTTP_TOKENS must list at least one token for clients of the HTTP transport");
+  }
+  const httpServer = new McpHttpServer(owner => createServer(mistralApi, { ...serverOptions, owner }), {
+    port: env.MCP_HTTP_PORT,
+    host: env.MCP_HTTP_HOST,
+    tokens,
+    sessionIdleMs: env.MCP_HTTP_SESSION_IDLE_MS,
+  });
+  const url = await httpServer.start();
+  log.notice(`Mistral Codestral MCP Server listening on ${url}`);
+
+  let stopping = false;
+  const shutdown = (signal: string) => {
+    if (stopping) {
+      return;
+    }
+    stopping = true;
+    log.notice(`Received ${signal}, closing ${httpServer.sessionCount} sessions`);
+    httpServer.close()
+      .catch(error => log.error("Error during shutdown", { error }))
+      .finally(() => process.exit(0));
   };
-});
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  // Only the long-running HTTP server reloads keys on SIGHUP; under stdio a hangup still ends the process
+  reloadKeysOn('SIGHUP', mistralApi, currentKeys);
+}
 
 // Start the server
 async function main() {
   try {
+    if (env.MCP_TRANSPORT === 'http') {
+      await serveHttp();
+      return;
+    }
+    const server = createServer(mistralApi, serverOptions);
     const transport = new StdioServerTransport();
     await server.connect(transport);
-    console.error("Mistral Codestral MCP Server running on stdio");
+    log.notice("Mistral Codestral MCP Server running on stdio");
   } catch (error) {
-    console.error("Fatal error:", error);
+    log.critical("Fatal error", { error });
     process.exit(1);
   }
 }
@@ -0,0 +1,164 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Leveled, redacted logging to stderr and an optional file, forwarded to the MCP client that made the request.
+// stdout carries the stdio transport, so nothing is ever logged there.
+
+// The MCP (syslog) levels, least severe first
+export const LOG_LEVELS = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export interface LogRecord {
+  time: string;
+  level: LogLevel;
+  // Module that wrote the record, e.g. "mistral"
+  logger: string;
+  message: string;
+  // Tool call the record belongs to; API calls made for a tool call share its ID
+  request_id?: string;
+  tool?: string;
+  [field: string]: unknown;
+}
+
+export interface LoggingOptions {
+  level?: LogLevel;
+  format?: 'text' | 'json';
+  // Append records to this file as well as stderr
+  file?: string;
+  // Strings longer than this are cut in log records
+  maxFieldChars?: number;
+}
+
+// Receives the records of the requests it was attached to, e.g. to send them to an MCP client
+export interface LogSink {
+  level(): LogLevel;
+  send(record: LogRecord): void;
+}
+
+interface LogContext {
+  requestId: string;
+  tool?: string;
+  sink?: LogSink;
+}
+
+export type Logger = Record<LogLevel, (message: string, fields?: Record<string, unknown>) => void>;
+
+const REDACTED = '[REDACTED]';
+
+// Fields whose values are credentials, whatever they hold
+const SECRET_KEYS = /^(authorization|proxy-authorization|cookie|set-cookie|password|passwd|credentials?|(x-)?api[-_]?key|(\w+[-_])?(token|secret))$/i;
+
+// Credentials inside free text
+const SECRET_VALUES: RegExp[] = [
+  /\b(Bearer|Basic)\s+[\w.~+/=-]+/gi,
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+  /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g,
+  /\b(sk|pk|rk)[-_](live[-_]|test[-_])?[A-Za-z0-9]{16,}\b/g,
+  /\b(AKIA|ASIA)[A-Z0-9]{16}\b/g,
+  /\bgh[pousr]_[A-Za-z0-9]{30,}\b/g,
+  /:\/\/[^\s:@/]+:[^\s@/]+@/g,
+];
+
+const MAX_DEPTH = 4;
+const MAX_ITEMS = 20;
+
+let options: Required<Omit<LoggingOptions, 'file'>> & { file?: string } = { level: 'info', format: 'text', maxFieldChars: 500 };
+let fileStream: fs.WriteStream | undefined;
+const context = new AsyncLocalStorage<LogContext>();
+
+export function configureLogging(next: LoggingOptions) {
+  options = { ...options, ...Object.fromEntries(Object.entries(next).filter(([, value]) => value !== undefined)) };
+  fileStream?.end();
+  fileStream = options.file ? fs.createWriteStream(options.file, { flags: 'a' }) : undefined;
+  fileStream?.on('error', error => process.stderr.write(`Error writing log file ${options.file}: ${error.message}\n`));
+}
+
+export const severity = (level: LogLevel) => LOG_LEVELS.indexOf(level);
+
+// A short ID for a tool call, to find its records among those of concurrent calls
+export const newRequestId = () => crypto.randomBytes(6).toString('hex');
+
+// Run `fn` with every record it logs, also asynchronously, tagged with the request and sent to `sink`
+export function withLogContext<T>(logContext: LogContext, fn: () => T): T {
+  return context.run(logContext, fn);
+}
+
+// Secrets replaced, long strings cut, deep or large structures summarized, errors reduced to their message
+export function redact(value: unknown, maxChars: number = options.maxFieldChars, depth: number = 0): unknown {
+  if (typeof value === 'string') {
+    const clean = SECRET_VALUES.reduce((text, pattern) => text.replace(pattern, match =>
+      match.startsWith('://') ? `://${REDACTED}@` : /^(bearer|basic)\s/i.test(match) ? `${match.split(/\s/)[0]} ${REDACTED}` : REDACTED
+    ), value);
+    return clean.length > maxChars ? `${clean.slice(0, maxChars)}… [${clean.length} chars]` : clean;
+  }
+  if (value instanceof Error) {
+    return redact({
+      name: value.name,
+      message: value.message,
+      ...(options.level === 'debug' ? { stack: value.stack } : {}),
+    }, maxChars, depth);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return Array.isArray(value) ? `[${value.length} items]` : '[object]';
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ITEMS).map(item => redact(item, maxChars, depth + 1));
+    return value.length > MAX_ITEMS ? [...items, `… ${value.length - MAX_ITEMS} more`] : items;
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, field]) => [
+    key,
+    SECRET_KEYS.test(key) && field !== undefined && field !== null ? REDACTED : redact(field, maxChars, depth + 1),
+  ]));
+}
+
+function format(record: LogRecord): string {
+  if (options.format === 'json') {
+    return JSON.stringify(record);
+  }
+  const { time, level, logger, message, request_id, tool, ...fields } = record;
+  const scope = request_id ? ` (${tool ?? 'request'} ${request_id})` : '';
+  const details = Object.entries(fields).map(([key, value]) => ` ${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`).join('');
+  return `${time} ${level.toUpperCase()} [${logger}]${scope} ${message}${details}`;
+}
+
+function write(logger: string, level: LogLevel, message: string, fields: Record<string, unknown> = {}) {
+  const current = context.getStore();
+  const toOutput = severity(level) >= severity(options.level);
+  const toSink = current?.sink !== undefined && severity(level) >= severity(current.sink.level());
+  if (!toOutput && !toSink) {
+    return;
+  }
+
+  const record: LogRecord = {
+    time: new Date().toISOString(),
+    level,
+    logger,
+    message: redact(message, Math.max(options.maxFieldChars, 1000)) as string,
+    ...(current ? { request_id: current.requestId, tool: current.tool } : {}),
+    ...(redact(fields, options.maxFieldChars, 1) as Record<string, unknown>),
+  };
+
+  if (toOutput) {
+    const line = format(record);
+    console.error(line);
+    fileStream?.write(`${line}\n`);
+  }
+  if (toSink) {
+    try {
+      current.sink!.send(record);
+    } catch {
+      // A sink that cannot take records must not break the code that logs
+    }
+  }
+}
+
+export function createLogger(name: string): Logger {
+  return Object.fromEntries(LOG_LEVELS.map(level => [
+    level,
+    (message: string, fields?: Record<string, unknown>) => write(name, level, message, fields),
+  ])) as Logger;
+}
@@ -1,29 +1,48 @@
-import axios, { AxiosError } from 'axios';
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
 import { z } from 'zod';
-
-const CODESTRAL_API_BASE = 'https://codestral.mistral.ai/v1';
-const MISTRAL_API_BASE = 'https://api.mistral.com/v1';
-
+import type { Readable } from 'stream';
+import { collectCompletionStream, StreamProgressHandler } from './stream.js';
+import { RateLimiter, RateLimitOptions, EstimatableRequest, estimateTokens } from './ratelimit.js';
+import { RetryPolicy, DEFAULT_RETRY_POLICY, RequestAbortedError, cancelledError, withRetry } from './retry.js';
+import { BuiltinTask, DEFAULT_PROMPTS, renderPrompt } from './prompts.js';
+import { Cassette, RecordMode } from './cassette.js';
+import { ModelInfo, ModelRegistry, RemoteModel } from './models.js';
+import { FimRoute, KeyRing, ProviderConfig, splitKeys } from './providers.js';
+import { BudgetExceededError, UsageLedger, UsageTags } from './usage.js';
+import { CacheMode, ResponseCache } from './cache.js';
+import { createLogger } from './logger.js';
+import { ScrubSession, SensitiveDataError } from './scrub.js';
+
+const log = createLogger('mistral');
+
+export const CODESTRAL_API_BASE = 'https://codestral.mistral.ai/v1';
+export const MISTRAL_API_BASE = 'https://api.mistral.com/v1';
+
+// Well-known model ids, used as defaults; the registry decides where and how each model is used
 export const MISTRAL_MODELS = {
-  // Code-specific models (use Codestral endpoint)
   CODESTRAL: 'codestral-latest',
   CODESTRAL_MAMBA: 'codestral-mamba-latest',
-  // General models (use standard Mistral endpoint)
   MISTRAL_LARGE: 'mistral-large-latest',
   MISTRAL_SMALL: 'mistral-small-latest',
   MINISTRAL_8B: 'ministral-8b-latest',
   MINISTRAL_3B: 'ministral-3b-latest',
 } as const;
 
-export type MistralModel = typeof MISTRAL_MODELS[keyof typeof MISTRAL_MODELS];
+export const EMBEDDING_MODELS = {
+  CODESTRAL_EMBED: 'codestral-embed',
+} as const;
 
-// Helper to determine which API base to use
-function getApiBase(model: MistralModel): string {
-  if (model === MISTRAL_MODELS.CODESTRAL || model === MISTRAL_MODELS.CODESTRAL_MAMBA) {
-    return CODESTRAL_API_BASE;
-  }
-  return MISTRAL_API_BASE;
-}
+// Function calls requested by the model; Mistral sends the arguments as a JSON string
+const ToolCallSchema = z.object({
+  id: z.string().optional(),
+  type: z.string().optional(),
+  function: z.object({
+    name: z.string(),
+    arguments: z.union([z.string(), z.record(z.unknown())]),
+  }),
+});
+
+export type ToolCall = z.infer<typeof ToolCallSchema>;
 
 // Response schema validation
 const CompletionResponseSchema = z.object({
@@ -35,7 +54,9 @@ const CompletionResponseSchema = z.object({
     index: z.number(),
     message: z.object({
       role: z.string(),
-      content: z.string(),
+      // Tool-call responses carry no text
+      content: z.string().nullable().optional().transform(content => content ?? ''),
+      tool_calls: z.array(ToolCallSchema).nullable().optional().transform(calls => calls ?? undefined),
     }),
     finish_reason: z.string().optional(),
   })),
@@ -48,44 +69,397 @@ const CompletionResponseSchema = z.object({
 
 export type CompletionResponse = z.infer<typeof CompletionResponseSchema>;
 
-export class MistralAPI {
-  private apiKey: string;
-  private codestralClient: ReturnType<typeof axios.create>;
-  private mistralClient: ReturnType<typeof axios.create>;
+const EmbeddingResponseSchema = z.object({
+  id: z.string().optional(),
+  model: z.string(),
+  data: z.array(z.object({
+    index: z.number(),
+    embedding: z.array(z.number()),
+  })),
+  usage: z.object({
+    prompt_tokens: z.number(),
+    completion_tokens: z.number().optional(),
+    total_tokens: z.number(),
+  }),
+});
+
+export type EmbeddingResponse = z.infer<typeof EmbeddingResponseSchema>;
+
+// Inputs sent per embeddings request
+const EMBEDDING_BATCH_SIZE = 32;
 
-  constructor(apiKey: string) {
-    if (!apiKey || apiKey.trim().length === 0) {
+export interface ChatMessage {
+  role: string;
+  content: string;
+  // Calls made by an assistant message, echoed back so the model can match tool results
+  tool_calls?: ToolCall[];
+  // For `tool` messages: the call this is the result of
+  tool_call_id?: string;
+  name?: string;
+}
+
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export type ToolChoice =
+  | 'auto' | 'none' | 'any' | 'required'
+  | { type: 'function'; function: { name: string } };
+
+export type ResponseFormat =
+  | { type: 'text' | 'json_object' }
+  | { type: 'json_schema'; json_schema: { name: string; description?: string; schema: Record<string, unknown>; strict?: boolean } };
+
+export interface MistralAPIOptions {
+  // Override the endpoints, e.g. to point at a proxy or the bundled mock server
+  codestralBaseUrl?: string;
+  mistralBaseUrl?: string;
+  // Keys for the Codestral endpoint when they differ from La Plateforme's
+  codestralApiKey?: string | string[];
+  // Further backends, by the name models give as their endpoint; 'codestral' and 'mistral' replace the built-in ones
+  providers?: Record<string, ProviderConfig>;
+  retry?: Partial<RetryPolicy>;
+  rateLimit?: RateLimitOptions;
+  // Record responses to, or replay them from, a cassette directory
+  recording?: {
+    mode: RecordMode;
+    dir: string;
+  };
+  // Known models and their capabilities; defaults to the built-in list
+  models?: ModelRegistry;
+  // Records the usage of every call and enforces spending limits
+  usage?: UsageLedger;
+  // Answers repeated deterministic completion requests without an API call
+  cache?: ResponseCache;
+  // How long a request may wait for the API before it fails; calls can override it
+  timeoutMs?: number;
+}
+
+// Per-call cancellation and deadline
+export interface CallControl {
+  // Aborting it stops the call wherever it is: waiting for the rate limiter, backing off, or on the wire
+  signal?: AbortSignal;
+  // Replaces the client's timeout for this call's requests
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+type RequestBody = EstimatableRequest & Record<string, unknown>;
+
+// Where each provider FIM route is served
+const FIM_PATHS: Record<Exclude<FimRoute, 'none'>, string> = {
+  fim: '/fim/completions',
+  completions: '/completions',
+  infill: '/infill',
+};
+
+// FIM request in the shape the route expects; llama.cpp's /infill names its fields differently
+function fimRequestBody(route: Exclude<FimRoute, 'none'>, body: RequestBody & { prompt: string; max_tokens: number }): RequestBody {
+  if (route !== 'infill') {
+    return body;
+  }
+  const { prompt, suffix, max_tokens, ...rest } = body;
+  return { ...rest, input_prefix: prompt, input_suffix: suffix ?? '', n_predict: max_tokens };
+}
+
+// Answers of OpenAI-style servers: chat messages, text completions with `text`, or llama.cpp's /infill with
+// `content`; some leave out ids or usage
+const CompatibleResponseSchema = z.object({
+  id: z.string().optional(),
+  object: z.string().optional(),
+  created: z.number().optional(),
+  model: z.string().optional(),
+  choices: z.array(z.object({
+    index: z.number().optional(),
+    message: z.record(z.unknown()).optional(),
+    text: z.string().optional(),
+    finish_reason: z.string().nullable().optional(),
+  })).optional(),
+  content: z.string().optional(),
+  stop_type: z.string().optional(),
+  tokens_evaluated: z.number().optional(),
+  tokens_predicted: z.number().optional(),
+  usage: z.object({
+    prompt_tokens: z.number(),
+    completion_tokens: z.number(),
+    total_tokens: z.number(),
+  }).nullable().optional(),
+});
+
+// The answer of an OpenAI-style server as a chat completion; missing usage is estimated
+function toCompletionResponse(requestBody: RequestBody, data: unknown): CompletionResponse {
+  const body = CompatibleResponseSchema.parse(data);
+  const choices = body.choices
+    ? body.choices.map((choice, index) => ({
+      index: choice.index ?? index,
+      message: choice.message ?? { role: 'assistant', content: choice.text ?? '' },
+      finish_reason: choice.finish_reason ?? undefined,
+    }))
+    : [{ index: 0, message: { role: 'assistant', content: body.content ?? '' }, finish_reason: body.stop_type === 'limit' ? 'length' : 'stop' }];
+  const completion = CompletionResponseSchema.parse({
+    id: body.id ?? `${requestBody.model}-${Date.now()}`,
+    object: body.object ?? 'chat.completion',
+    created: body.created ?? Math.floor(Date.now() / 1000),
+    model: body.model ?? requestBody.model,
+    choices,
+    usage: body.usage ?? { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+  });
+  if (!body.usage) {
+    const promptTokens = body.tokens_evaluated ?? estimateTokens({ ...requestBody, max_tokens: 0 });
+    const completionTokens = body.tokens_predicted ?? Math.ceil(completion.choices.map(choice => choice.message.content).join('').length / 4);
+    completion.usage = { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+  }
+  return completion;
+}
+
+// A configured backend with its HTTP client, keys and rate limiter
+interface Provider {
+  name: string;
+  config: ProviderConfig;
+  client: ReturnType<typeof axios.create>;
+  keys: KeyRing;
+  rateLimiter: RateLimiter;
+}
+
+// Keys given as a string may hold several, separated by commas
+const keyList = (keys: string | string[] | undefined): string[] =>
+  Array.isArray(keys) ? keys.map(key => key.trim()).filter(Boolean) : splitKeys(keys);
+
+// Largest error body read from a failed streamed request
+const MAX_ERROR_BODY_BYTES = 64 * 1024;
+
+const isReadable = (data: unknown): data is Readable =>
+  typeof data === 'object' && data !== null && typeof (data as Readable).pipe === 'function';
+
+// The body of a failed streamed request, parsed as JSON when it is JSON
+async function readErrorBody(stream: Readable): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let bytes = 0;
+  try {
+    for await (const chunk of stream) {
+      const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(String(chunk));
+      chunks.push(buffer);
+      bytes += buffer.length;
+      if (bytes > MAX_ERROR_BODY_BYTES) {
+        stream.destroy();
+        break;
+      }
+    }
+  } catch {
+    // Whatever arrived before the stream broke is still worth reporting
+  }
+  // Decoded once, so a character split across chunks stays whole
+  const text = Buffer.concat(chunks).subarray(0, MAX_ERROR_BODY_BYTES).toString('utf-8');
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// A 403 usually means the key may not use this model or feature, which the next key would not change; only
+// one whose body says the key itself is no good rules the key out, like any 401
+const INVALID_KEY = /\b(invalid|revoked|expired|disabled|deactivated|unknown)\b.*\bkey\b|\bkey\b.*\b(invalid|revoked|expired|disabled|deactivated)\b/i;
+
+function isKeyRejected(error: unknown): boolean {
+  if (!(error instanceof AxiosError) || !error.response) {
+    return false;
+  }
+  if (error.response.status === 401) {
+    return true;
+  }
+  if (error.response.status !== 403) {
+    return false;
+  }
+  const data = error.response.data;
+  const message = typeof data === 'string' ? data : data?.error?.message ?? data?.message ?? data?.detail;
+  return typeof message === 'string' && INVALID_KEY.test(message);
+}
+
+// A message with its text and the arguments of the calls it echoes back scrubbed
+function scrubMessage(message: ChatMessage, scrub: ScrubSession): ChatMessage {
+  return {
+    ...message,
+    content: scrub.scrub(message.content),
+    ...(message.tool_calls ? {
+      tool_calls: message.tool_calls.map(call => ({ ...call, function: { ...call.function, arguments: scrub.scrubArguments(call.function.arguments) } })),
+    } : {}),
+  };
+}
+
+export class MistralAPI {
+  readonly models: ModelRegistry;
+  readonly cache?: ResponseCache;
+  private providers = new Map<string, Provider>();
+  private retryPolicy: RetryPolicy;
+  private rateLimiter: RateLimiter;
+  private cassette: Cassette;
+  private usage?: UsageLedger;
+  private timeoutMs: number;
+
+  // Without an API key only configured providers that need none can be used
+  constructor(apiKey: string | string[] | undefined, options: MistralAPIOptions = {}) {
+    const apiKeys = keyList(apiKey);
+    if (apiKey !== undefined && apiKeys.length === 0) {
       throw new Error('API key cannot be empty');
     }
-    this.apiKey = apiKey.trim();
-
-    // Create separate clients for each API endpoint
-    this.codestralClient = axios.create({
-      baseURL: CODESTRAL_API_BASE,
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      timeout: 30000, // 30 second timeout
-    });
+    // Unset options keep their defaults instead of overriding them with undefined
+    const retryOverrides = Object.fromEntries(
+      Object.entries(options.retry ?? {}).filter(([, value]) => value !== undefined)
+    );
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...retryOverrides };
+    this.rateLimiter = new RateLimiter(options.rateLimit);
+    this.cassette = new Cassette(options.recording?.mode ?? 'passthrough', options.recording?.dir ?? 'cassettes');
+    this.models = options.models ?? new ModelRegistry();
+    this.usage = options.usage;
+    this.cache = options.cache;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    const codestralKeys = options.codestralApiKey !== undefined ? keyList(options.codestralApiKey) : apiKeys;
+    const providers: Record<string, ProviderConfig> = {
+      codestral: { type: 'mistral', baseUrl: options.codestralBaseUrl || CODESTRAL_API_BASE, apiKeys: codestralKeys, fim: 'fim' },
+      mistral: { type: 'mistral', baseUrl: options.mistralBaseUrl || MISTRAL_API_BASE, apiKeys, fim: 'fim' },
+      ...options.providers,
+    };
+    for (const [name, config] of Object.entries(providers)) {
+      this.providers.set(name, {
+        name,
+        config,
+        client: axios.create({
+          baseURL: config.baseUrl,
+          headers: {
+            'Content-Type': 'application/json',
+            'Accept': 'application/json',
+          },
+          timeout: config.timeoutMs ?? this.timeoutMs,
+        }),
+        keys: new KeyRing(config.apiKeys),
+        // Providers without a budget of their own share the client's
+        rateLimiter: config.rateLimit ? new RateLimiter(config.rateLimit) : this.rateLimiter,
+      });
+    }
+  }
 
-    this.mistralClient = axios.create({
-      baseURL: MISTRAL_API_BASE,
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      timeout: 30000, // 30 second timeout
-    });
+  // The provider that serves a model
+  private provider(model: ModelInfo | string): Provider {
+    const name = typeof model === 'string' ? model : model.endpoint;
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Unknown provider ${name}${typeof model === 'string' ? '' : ` for model ${model.id}`}. Configured providers: ${[...this.providers.keys()].join(', ')}`);
+    }
+    return provider;
+  }
+
+  // Replace a provider's keys without a restart, e.g. after the old ones were rotated out; see reloadKeysOn
+  rotateKeys(providerName: string, keys: string | string[]) {
+    this.provider(providerName).keys.replace(keyList(keys));
+  }
+
+  // Models available to this API key, from the general endpoint's /models listing
+  async listModels(): Promise<RemoteModel[]> {
+    const provider = this.provider('mistral');
+    const response = await withRetry(() => provider.client.get<{ data: RemoteModel[] }>('/models', {
+      headers: this.authorization(provider.keys.current()),
+    }), this.retryPolicy);
+    return response.data.data;
+  }
+
+  private authorization(key: string | undefined): Record<string, string> {
+    return key ? { 'Authorization': `Bearer ${key}` } : {};
   }
 
-  // Helper to get the right client for a model
-  private getClient(model: MistralModel) {
-    return getApiBase(model) === CODESTRAL_API_BASE
-      ? this.codestralClient
-      : this.mistralClient;
+  // Shared request pipeline: every attempt waits for the rate limiter, retryable failures back off,
+  // and a rejected key makes way for the provider's next one
+  private async send<T>(
+    provider: Provider,
+    url: string,
+    requestBody: RequestBody,
+    config: AxiosRequestConfig = {},
+    control: CallControl = {}
+  ): Promise<AxiosResponse<T>> {
+    if (provider.config.type === 'mistral' && provider.keys.size === 0) {
+      throw new Error(`No API key is configured for provider ${provider.name}`);
+    }
+    const timeoutMs = control.timeoutMs ?? provider.config.timeoutMs ?? this.timeoutMs;
+
+    const post = async (key: string | undefined, attempt: number) => {
+      const estimated = estimateTokens(requestBody);
+      await provider.rateLimiter.acquire(estimated, control.signal);
+      const started = Date.now();
+      const call = { provider: provider.name, endpoint: url, model: requestBody.model, attempt: attempt + 1 };
+      try {
+        const response = await provider.client.post<T>(url, requestBody, {
+          ...config,
+          headers: { ...config.headers, ...this.authorization(key) },
+          signal: control.signal,
+          timeout: timeoutMs,
+        });
+        log.info('API call', { ...call, status: response.status, duration_ms: Date.now() - started });
+        return response;
+      } catch (error) {
+        // The error body of a streamed request is still a stream; read it so callers see the API's message
+        if (error instanceof AxiosError && error.response && isReadable(error.response.data)) {
+          error.response.data = await readErrorBody(error.response.data);
+        }
+        log.warning('API call failed', {
+          ...call,
+          status: error instanceof AxiosError ? error.response?.status : undefined,
+          duration_ms: Date.now() - started,
+          error,
+        });
+        // A rejected request did not consume any tokens
+        provider.rateLimiter.settle(estimated, 0);
+        if (axios.isCancel(error) || control.signal?.aborted) {
+          throw cancelledError();
+        }
+        if (error instanceof AxiosError && !error.response && (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT')) {
+          throw new RequestAbortedError('timeout', `Provider ${provider.name} did not respond within ${timeoutMs}ms`, timeoutMs);
+        }
+        throw error;
+      }
+    };
+
+    return withRetry(async attempt => {
+      for (;;) {
+        const key = provider.keys.current();
+        try {
+          return await post(key, attempt);
+        } catch (error) {
+          const status = error instanceof AxiosError ? error.response?.status : undefined;
+          if (key && isKeyRejected(error) && provider.keys.revoke(key)) {
+            log.warning('API key rejected, trying the next one', { provider: provider.name, status, keys_left: provider.keys.size });
+            continue;
+          }
+          if (key && status === 429) {
+            provider.keys.rotate(key);
+          }
+          throw error;
+        }
+      }
+    }, this.retryPolicy, control.signal);
+  }
+
+  // Replace the token estimate reserved by send() with the real usage, and record it
+  private async settleUsage(
+    provider: Provider,
+    requestBody: RequestBody,
+    usage: { prompt_tokens: number; completion_tokens?: number; total_tokens: number },
+    tags: UsageTags = { tool: 'api' }
+  ) {
+    provider.rateLimiter.settle(estimateTokens(requestBody), usage.total_tokens);
+    log.debug('API usage', {
+      model: requestBody.model,
+      prompt_tokens: usage.prompt_tokens,
+      completion_tokens: usage.completion_tokens,
+      total_tokens: usage.total_tokens,
+    });
+    await this.usage?.record(String(requestBody.model), usage, tags);
   }
 
   async validateApiKey(): Promise<boolean> {
@@ -94,16 +468,15 @@ export class MistralAPI {
     try {
       await this.chatCompletion(
         [{ role: 'user', content: 'test' }],
-        { max_tokens: 1 }
+        { max_tokens: 1, usage: { tool: 'startup' } }
       );
-      console.error('Successfully connected to Codestral API');
+      log.debug('Successfully connected to Codestral API');
       return true;
     } catch (error) {
       if (error instanceof AxiosError) {
-        console.error('API Error details:', {
+        log.error('API key validation failed', {
           status: error.response?.status,
           data: error.response?.data,
-          headers: error.response?.headers
         });
         if (error.response?.status === 401) {
           throw new Error('Invalid API key. Please check your Codestral API key.');
@@ -115,30 +488,57 @@ export class MistralAPI {
   }
 
   async chatCompletion(
-    messages: Array<{ role: string; content: string }>,
+    messages: ChatMessage[],
     options: {
-      model?: MistralModel;
+      model?: string;
       temperature?: number;
       top_p?: number;
       max_tokens?: number;
       stop?: string[];
-    } = {}
+      tools?: ToolDefinition[];
+      tool_choice?: ToolChoice;
+      response_format?: ResponseFormat;
+      // Number of choices to generate
+      n?: number;
+      stream?: boolean;
+      onProgress?: StreamProgressHandler;
+      usage?: UsageTags;
+      cache?: CacheMode;
+      // Replaces secrets in what is sent and puts them back into the answer
+      scrub?: ScrubSession;
+    } & CallControl = {}
   ) {
     try {
-      const model = options.model || MISTRAL_MODELS.CODESTRAL;
-      const client = this.getClient(model);
+      const model = this.models.require(options.model || MISTRAL_MODELS.CODESTRAL, 'chat');
+      if (options.tools?.length) {
+        this.models.require(model.id, 'tools', 'function calling');
+      }
+      const provider = this.provider(model);
+      const openai = provider.config.type === 'openai';
 
-      const response = await client.post('/chat/completions', {
-        model,
-        messages,
+      const { scrub } = options;
+      const requestBody = {
+        model: model.id,
+        messages: scrub ? messages.map(message => scrubMessage(message, scrub)) : messages,
         temperature: options.temperature ?? 0.7,
         top_p: options.top_p ?? 1,
         max_tokens: options.max_tokens ?? 1000,
         stop: options.stop,
-      });
+        tools: scrub && options.tools
+          ? options.tools.map(tool => ({
+            ...tool,
+            function: { ...tool.function, description: scrub.scrubValue(tool.function.description), parameters: scrub.scrubValue(tool.function.parameters) },
+          }))
+          : options.tools,
+        // Mistral's 'any' is 'required' elsewhere
+        tool_choice: openai && options.tool_choice === 'any' ? 'required' : options.tool_choice,
+        response_format: options.response_format,
+        n: options.n,
+        // OpenAI-style servers only report the usage of a stream when asked to
+        ...(openai && options.stream ? { stream_options: { include_usage: true } } : {}),
+      };
 
-      const validatedResponse = CompletionResponseSchema.parse(response.data);
-      return validatedResponse;
+      return await this.complete(provider, '/chat/completions', requestBody, options);
     } catch (error) {
       if (error instanceof AxiosError) {
         const status = error.response?.status;
@@ -148,9 +548,9 @@ export class MistralAPI {
           case 401:
             throw new Error('Authentication failed. Please check your API key.');
           case 429:
-            throw new Error('Rate limit exceeded. Please try again later.');
+            throw new Error(`Rate limit exceeded after ${this.retryPolicy.maxRetries} retries. Please try again later.`);
           case 500:
-            throw new Error('Mistral API server error. Please try again later.');
+            throw new Error(`Mistral API server error after ${this.retryPolicy.maxRetries} retries. Please try again later.`);
           default:
             throw new Error(`Mistral API error (${status}): ${message}`);
         }
@@ -159,60 +559,117 @@ export class MistralAPI {
     }
   }
 
+  // Embed each input, batching large lists; vectors come back in input order
+  async embed(
+    inputs: string[],
+    options: {
+      model?: string;
+      output_dimension?: number;
+      usage?: UsageTags;
+      // Replaces secrets in the inputs; vectors need nothing restored
+      scrub?: ScrubSession;
+    } = {}
+  ): Promise<number[][]> {
+    const model = this.models.require(options.model ?? EMBEDDING_MODELS.CODESTRAL_EMBED, 'embeddings');
+    const vectors: number[][] = [];
+    // Everything is scrubbed before the first batch goes out, so a blocked input stops the whole call
+    const texts = options.scrub ? inputs.map(input => options.scrub!.scrub(input)) : inputs;
+
+    for (let start = 0; start < inputs.length; start += EMBEDDING_BATCH_SIZE) {
+      const requestBody = {
+        model: model.id,
+        input: texts.slice(start, start + EMBEDDING_BATCH_SIZE),
+        output_dimension: options.output_dimension,
+      };
+
+      try {
+        const { response } = await this.cassette.intercept('/embeddings', requestBody, async () => {
+          await this.usage?.checkBudget();
+          const provider = this.provider(model);
+          const response = await this.send(provider, '/embeddings', requestBody);
+          const validatedResponse = EmbeddingResponseSchema.parse(response.data);
+          await this.settleUsage(provider, requestBody, validatedResponse.usage, options.usage);
+          return validatedResponse;
+        });
+
+        const batch = EmbeddingResponseSchema.parse(response);
+        vectors.push(...[...batch.data].sort((a, b) => a.index - b.index).map(item => item.embedding));
+      } catch (error) {
+        if (error instanceof AxiosError) {
+          const status = error.response?.status;
+          const message = error.response?.data?.error?.message || error.message;
+
+          switch (status) {
+            case 401:
+              throw new Error('Authentication failed. Please check your API key.');
+            case 429:
+              throw new Error(`Rate limit exceeded after ${this.retryPolicy.maxRetries} retries. Please try again later.`);
+            case 500:
+              throw new Error(`Mistral API server error after ${this.retryPolicy.maxRetries} retries. Please try again later.`);
+            default:
+              throw new Error(`Mistral API error (${status}): ${message}`);
+          }
+        }
+        throw error;
+      }
+    }
+
+    return vectors;
+  }
+
   // FIM (Fill-in-the-middle) completion
   async fimCompletion(
     prompt: string,
     options: {
+      model?: string;
       suffix?: string;
       temperature?: number;
       top_p?: number;
       max_tokens?: number;
       stop?: string[];
-    } = {}
+      stream?: boolean;
+      onProgress?: StreamProgressHandler;
+      usage?: UsageTags;
+      cache?: CacheMode;
+      // Replaces secrets in what is sent and puts them back into the answer
+      scrub?: ScrubSession;
+    } & CallControl = {}
   ) {
+    const model = this.models.require(options.model ?? MISTRAL_MODELS.CODESTRAL, 'fim');
+
     try {
-      console.error('FIM Request:', {
-        prompt,
-        options,
-      });
+      const provider = this.provider(model);
+      const route = provider.config.fim;
+      if (route === 'none') {
+        throw new Error(`Provider ${provider.name} does not support fill-in-the-middle`);
+      }
 
-      const requestBody = {
-        model: MISTRAL_MODELS.CODESTRAL,
-        prompt,
-        suffix: options.suffix,
+      const { scrub } = options;
+      const requestBody = fimRequestBody(route, {
+        model: model.id,
+        prompt: scrub ? scrub.scrub(prompt) : prompt,
+        suffix: scrub && options.suffix !== undefined ? scrub.scrub(options.suffix) : options.suffix,
         temperature: options.temperature ?? 0,
         top_p: options.top_p ?? 1,
         max_tokens: options.max_tokens ?? 1000,
         stop: options.stop,
-      };
-
-      console.error('FIM Request Body:', JSON.stringify(requestBody, null, 2));
-
-      // FIM is only available on Codestral models
-      const response = await this.codestralClient.post('/fim/completions', requestBody);
-
-      console.error('FIM Response:', {
-        status: response.status,
-        headers: response.headers,
-        data: response.data,
       });
 
-      const validatedResponse = CompletionResponseSchema.parse(response.data);
-      return validatedResponse;
-    } catch (error: unknown) {
-      const err = error as Error;
-      console.error('FIM Error:', {
-        name: err.name,
-        message: err.message,
-        stack: err.stack,
+      // Only sizes: prompts are the user's code
+      log.debug('FIM request', {
+        model: model.id,
+        prompt_chars: prompt.length,
+        suffix_chars: options.suffix?.length ?? 0,
+        max_tokens: options.max_tokens ?? 1000,
       });
 
+      return await this.complete(provider, FIM_PATHS[route], requestBody, options);
+    } catch (error: unknown) {
       if (error instanceof AxiosError) {
-        console.error('API Error Details:', {
+        log.error('FIM request failed', {
           status: error.response?.status,
-          statusText: error.response?.statusText,
+          status_text: error.response?.statusText,
           data: error.response?.data,
-          headers: error.response?.headers,
         });
 
         const status = error.response?.status;
@@ -222,75 +679,98 @@ export class MistralAPI {
           case 401:
             throw new Error('Authentication failed. Please check your API key.');
           case 429:
-            throw new Error('Rate limit exceeded. Please try again later.');
+            throw new Error(`Rate limit exceeded after ${this.retryPolicy.maxRetries} retries. Please try again later.`);
           case 500:
-            throw new Error('Mistral API server error. Please try again later.');
+            throw new Error(`Mistral API server error after ${this.retryPolicy.maxRetries} retries. Please try again later.`);
           default:
             throw new Error(`Mistral API error (${status}): ${message}\nResponse: ${JSON.stringify(error.response?.data)}`);
         }
       }
-      throw new Error(`Unexpected error during FIM completion: ${err.message}`);
+      if (error instanceof BudgetExceededError || error instanceof RequestAbortedError || error instanceof SensitiveDataError) {
+        throw error;
+      }
+      throw new Error(`Unexpected error during FIM completion: ${(error as Error).message}`);
     }
   }
 
-  // Function for creating prompts based on task type
-  createPrompt(
-    code: string,
-    language: string | undefined,
-    task: 'complete' | 'fix' | 'test' | 'fim',
-    suffix?: string
-  ): Array<{ role: string; content: string }> {
-    const langStr = language ? ` ${language}` : '';
+  // Run a completion request (streamed or not), going through the cassette when recording or replaying
+  private async complete(
+    provider: Provider,
+    url: string,
+    requestBody: RequestBody,
+    options: { stream?: boolean; onProgress?: StreamProgressHandler; usage?: UsageTags; cache?: CacheMode; scrub?: ScrubSession } & CallControl
+  ): Promise<CompletionResponse> {
+    // The request body is already scrubbed; listeners and callers get the original values back
+    const onProgress = options.scrub ? options.scrub.restoreProgress(options.onProgress) : options.onProgress;
+    // Text completion routes of OpenAI-style servers are not streamed; their answer is reported once it is complete
+    const streamed = options.stream && (provider.config.type === 'mistral' || url === '/chat/completions');
+    let replayed = false;
+    const fetch = async () => {
+      const result = await this.cassette.intercept(url, requestBody, async () => {
+        // Replayed responses cost nothing, so only live calls count against the budget
+        await this.usage?.checkBudget();
+        if (streamed) {
+          return this.streamCompletion(provider, url, requestBody, { ...options, onProgress });
+        }
 
-    const systemPrompts = {
-      complete: "You are an expert programmer. Continue or complete the provided code according to best practices.",
-      fix: "You are an expert programmer. Analyze the code for bugs and provide a corrected version with explanations of the fixes.",
-      test: "You are an expert programmer. Generate comprehensive unit tests for the provided code using appropriate testing frameworks.",
-      fim: "You are an expert programmer. Complete the code between the given start and end sections, ensuring it flows naturally.",
+        const response = await this.send(provider, url, requestBody, {}, options);
+        const validatedResponse = provider.config.type === 'openai'
+          ? toCompletionResponse(requestBody, response.data)
+          : CompletionResponseSchema.parse(response.data);
+        await this.settleUsage(provider, requestBody, validatedResponse.usage, options.usage);
+        return validatedResponse;
+      });
+      replayed = result.replayed;
+      return result.response;
     };
 
-    let userContent = `Here is the${langStr} code:\n\n\`\`\`${language || ''}\n${code}\n\`\`\``;
+    const { response, cached } = this.cache
+      ? await this.cache.intercept(url, requestBody, options.cache, fetch)
+      : { response: await fetch(), cached: false };
 
-    if (task === 'fim' && suffix) {
-      userContent += `\n\nThe code should end with:\n\n\`\`\`${language || ''}\n${suffix}\n\`\`\``;
+    const completion = CompletionResponseSchema.parse(response);
+    // A replayed, cached or unstreamed answer still reports its text once so progress listeners see the output
+    if ((replayed || cached || !streamed) && options.stream && onProgress) {
+      for (const choice of completion.choices) {
+        await onProgress(choice.message.content, choice.message.content, choice.index);
+      }
     }
-
-    return [
-      {
-        role: "system",
-        content: systemPrompts[task],
-      },
-      {
-        role: "user",
-        content: userContent,
-      },
-    ];
+    return options.scrub ? options.scrub.restoreCompletion(completion) : completion;
   }
 
-  // Rate limiting helpers
-  private lastRequestTime: number = 0;
-  private readonly minRequestInterval: number = 100; // Minimum 100ms between requests
-
-  private async enforceRateLimit() {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-
-    if (timeSinceLastRequest < this.minRequestInterval) {
-      await new Promise(resolve =>
-        setTimeout(resolve, this.minRequestInterval - timeSinceLastRequest)
-      );
+  // Request a server-sent event stream and reassemble it into a regular completion response
+  private async streamCompletion(
+    provider: Provider,
+    url: string,
+    requestBody: RequestBody,
+    options: { onProgress?: StreamProgressHandler; usage?: UsageTags } & CallControl
+  ): Promise<CompletionResponse> {
+    const response = await this.send<Readable>(provider, url, { ...requestBody, stream: true }, {
+      responseType: 'stream',
+      headers: { 'Accept': 'text/event-stream' },
+    }, options);
+
+    // Aborting destroys the stream, which surfaces here as a read error or an early end
+    const collected = await collectCompletionStream(response.data, options.onProgress).catch(error => {
+      throw options.signal?.aborted ? cancelledError() : error;
+    });
+    if (options.signal?.aborted) {
+      throw cancelledError();
     }
+    const completion = CompletionResponseSchema.parse(collected);
+    await this.settleUsage(provider, requestBody, completion.usage, options.usage);
+    return completion;
+  }
 
-    this.lastRequestTime = Date.now();
+  // Function for creating prompts based on task type
+  createPrompt(
+    code: string,
+    language: string | undefined,
+    task: BuiltinTask,
+    suffix?: string
+  ): Array<{ role: string; content: string }> {
+    return renderPrompt(DEFAULT_PROMPTS[task], { code, language, suffix });
   }
-}
 
-// Create a singleton instance
-let instance: MistralAPI | null = null;
+}
 
-export const getMistralAPI = (apiKey: string): MistralAPI => {
-  if (!instance) {
-    instance = new MistralAPI(apiKey);
-  }
-  return instance;
-};
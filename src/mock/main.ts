@@ -0,0 +1,18 @@
+import { MockMistralServer } from './server.js';
+
+// Run the mock Mistral API on its own, e.g. `MOCK_MISTRAL_PORT=8787 npm run mock`
+const mock = new MockMistralServer({
+  port: Number(process.env.MOCK_MISTRAL_PORT ?? 8787),
+  apiKey: process.env.MOCK_MISTRAL_API_KEY,
+});
+
+mock.start().then(url => {
+  console.error(`Mock Mistral API listening on ${url}`);
+}).catch(error => {
+  console.error("Failed to start mock Mistral API:", error);
+  process.exit(1);
+});
+
+process.on('SIGINT', () => {
+  mock.close().finally(() => process.exit(0));
+});
@@ -0,0 +1,338 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { ChatMessage, ResponseFormat, ToolDefinition } from '../mistral.js';
+
+// Local stand-in for the Mistral API, used for offline development and tests. It also answers the text completion
+// routes of OpenAI-compatible servers: /completions, and llama.cpp's /infill
+
+export type MockRoute = '/chat/completions' | '/fim/completions' | '/completions' | '/infill' | '/embeddings' | '/models';
+
+export interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  // Raw response body; takes precedence over `content`
+  body?: unknown;
+  // Shortcut for a successful completion with this text
+  content?: string;
+  // Shortcut for a completion that calls these functions
+  toolCalls?: Array<{ name: string; arguments: unknown }>;
+  // One text per choice, for requests with `n`; without it every choice repeats `content`
+  choices?: string[];
+  // Wait this long before answering, to simulate a slow upstream
+  delayMs?: number;
+}
+
+// The fields of the chat, FIM, text completion and embedding requests the mock and its tests look at. Bodies are
+// recorded as they arrive, so any field may be missing
+export interface MockRequestBody {
+  model?: string;
+  messages?: ChatMessage[];
+  prompt?: string;
+  suffix?: string;
+  // llama.cpp's /infill
+  input_prefix?: string;
+  input_suffix?: string;
+  n_predict?: number;
+  // Embeddings
+  input?: string | string[];
+  n?: number;
+  stream?: boolean;
+  temperature?: number;
+  tools?: ToolDefinition[];
+  tool_choice?: string;
+  response_format?: ResponseFormat;
+  [field: string]: unknown;
+}
+
+export interface RecordedRequest {
+  route: string;
+  headers: http.IncomingHttpHeaders;
+  // Empty for requests without a body, such as GET /models
+  body: MockRequestBody;
+}
+
+export interface MockMistralServerOptions {
+  port?: number;
+  host?: string;
+  // When set, requests without `Authorization: Bearer <apiKey>` get a 401
+  apiKey?: string;
+  // Dimension of the generated embedding vectors
+  embeddingDimensions?: number;
+}
+
+const ROUTES: MockRoute[] = ['/chat/completions', '/fim/completions', '/completions', '/infill', '/embeddings', '/models'];
+
+// What the mock's /models listing reports, in the shape of the Mistral API
+const MOCK_MODELS = [
+  { id: 'codestral-latest', chat: true, fim: true, tools: true, context: 256000 },
+  { id: 'mistral-large-latest', chat: true, fim: false, tools: true, context: 128000 },
+  { id: 'mistral-small-latest', chat: true, fim: false, tools: true, context: 32000 },
+  { id: 'codestral-embed', chat: false, fim: false, tools: false, context: 8192 },
+];
+
+const errorBody = (status: number, message: string) => ({
+  object: 'error',
+  message,
+  error: { message, type: status === 429 ? 'rate_limited' : 'mock_error', code: status },
+});
+
+// Deterministic bag-of-words embedding so related texts end up close together
+export function mockEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9_]+/g) ?? []) {
+    let hash = 0;
+    for (const char of word) {
+      hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+    vector[hash % dimensions] += 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map(value => value / norm);
+}
+
+export class MockMistralServer {
+  readonly requests: RecordedRequest[] = [];
+  private server: http.Server;
+  private scripts = new Map<string, MockResponse[]>();
+  private completionCount = 0;
+
+  constructor(private options: MockMistralServerOptions = {}) {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(errorBody(500, error instanceof Error ? error.message : String(error))));
+      });
+    });
+  }
+
+  // Base URL of the running server, usable as CODESTRAL_API_BASE / MISTRAL_API_BASE
+  get url(): string {
+    const address = this.server.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error('Mock Mistral server is not listening');
+    }
+    return `http://${this.options.host ?? '127.0.0.1'}:${address.port}/v1`;
+  }
+
+  start(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port ?? 0, this.options.host ?? '127.0.0.1', () => {
+        this.server.off('error', reject);
+        resolve(this.url);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.closeAllConnections();
+      this.server.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  // Queue responses for a route; they are used in order before falling back to the default reply
+  enqueue(route: MockRoute, ...responses: MockResponse[]) {
+    const queue = this.scripts.get(route) ?? [];
+    queue.push(...responses);
+    this.scripts.set(route, queue);
+  }
+
+  // Inject `times` consecutive errors with the given status
+  failNext(route: MockRoute, status: number, times: number = 1, headers?: Record<string, string>) {
+    for (let i = 0; i < times; i++) {
+      this.enqueue(route, { status, headers, body: errorBody(status, `Injected ${status} error`) });
+    }
+  }
+
+  reset() {
+    this.scripts.clear();
+    this.requests.length = 0;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const route = (req.url ?? '').replace(/^\/v1/, '').split('?')[0];
+    const body = await readJson(req);
+    this.requests.push({ route, headers: req.headers, body });
+
+    if (req.method !== (route === '/models' ? 'GET' : 'POST') || !ROUTES.includes(route as MockRoute)) {
+      return send(res, 404, errorBody(404, `No mock for ${req.method} ${route}`));
+    }
+
+    if (this.options.apiKey && req.headers.authorization !== `Bearer ${this.options.apiKey}`) {
+      return send(res, 401, errorBody(401, 'Unauthorized'));
+    }
+
+    const scripted = this.scripts.get(route)?.shift() ?? {};
+    if (scripted.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, scripted.delayMs));
+    }
+
+    const status = scripted.status ?? 200;
+    if (status >= 400) {
+      return send(res, status, scripted.body ?? errorBody(status, `Injected ${status} error`), scripted.headers);
+    }
+
+    if (scripted.body !== undefined) {
+      return send(res, status, scripted.body, scripted.headers);
+    }
+
+    if (route === '/embeddings') {
+      return send(res, status, this.embeddingResponse(body), scripted.headers);
+    }
+
+    if (route === '/models') {
+      return send(res, status, {
+        object: 'list',
+        data: MOCK_MODELS.map(model => ({
+          id: model.id,
+          object: 'model',
+          owned_by: 'mistralai',
+          max_context_length: model.context,
+          aliases: [],
+          capabilities: {
+            completion_chat: model.chat,
+            completion_fim: model.fim,
+            function_calling: model.tools,
+            vision: false,
+          },
+        })),
+      }, scripted.headers);
+    }
+
+    const content = scripted.content
+      ?? (scripted.toolCalls ? '' : route === '/chat/completions' ? 'mock chat completion' : 'mock fim completion');
+    const contents = scripted.choices ?? new Array<string>(Math.max(1, Number(body.n ?? 1))).fill(content);
+    if (route === '/completions' || route === '/infill') {
+      return send(res, status, this.textCompletionResponse(route, body, contents), scripted.headers);
+    }
+    if (body.stream) {
+      return this.streamCompletion(res, body, contents, scripted.toolCalls, scripted.headers);
+    }
+    return send(res, status, this.completionResponse(body, contents, scripted.toolCalls), scripted.headers);
+  }
+
+  private completionResponse(body: MockRequestBody, contents: string[], toolCalls?: MockResponse['toolCalls']) {
+    const calls = toolCalls?.map((call, i) => ({
+      id: `call_${this.completionCount + 1}_${i}`,
+      type: 'function',
+      function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+    }));
+    const completionTokens = contents.join(' ').split(/\s+/).filter(Boolean).length
+      + (calls ? Math.ceil(JSON.stringify(calls).length / 4) : 0);
+    const promptTokens = Math.ceil(JSON.stringify(body.messages ?? body.prompt ?? '').length / 4);
+    return {
+      id: `mock-${++this.completionCount}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: body.model ?? 'mock',
+      choices: contents.map((content, index) => ({
+        index,
+        // Tool calls go on the first choice
+        message: { role: 'assistant', content, ...(calls && index === 0 ? { tool_calls: calls } : {}) },
+        finish_reason: calls && index === 0 ? 'tool_calls' : 'stop',
+      })),
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    };
+  }
+
+  // OpenAI-style text completions carry `text` per choice; llama.cpp's /infill answers with one `content`
+  private textCompletionResponse(route: '/completions' | '/infill', body: MockRequestBody, contents: string[]) {
+    const full = this.completionResponse(body, contents);
+    if (route === '/infill') {
+      return {
+        content: contents[0],
+        tokens_evaluated: Math.ceil(`${body.input_prefix ?? ''}${body.input_suffix ?? ''}`.length / 4),
+        tokens_predicted: full.usage.completion_tokens,
+        stop_type: 'eos',
+      };
+    }
+    return {
+      ...full,
+      object: 'text_completion',
+      choices: full.choices.map(({ index, message, finish_reason }) => ({ index, text: message.content, finish_reason })),
+    };
+  }
+
+  private streamCompletion(
+    res: http.ServerResponse,
+    body: MockRequestBody,
+    contents: string[],
+    toolCalls?: MockResponse['toolCalls'],
+    headers?: Record<string, string>
+  ) {
+    const full = this.completionResponse(body, contents, toolCalls);
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', ...headers });
+
+    full.choices.forEach((choice, index) => {
+      const { message } = choice;
+      const lastChoice = index === full.choices.length - 1;
+      const pieces = message.content.match(/\S+\s*|\s+/g) ?? [''];
+      pieces.forEach((piece, i) => {
+        const last = i === pieces.length - 1;
+        const chunk = {
+          id: full.id,
+          object: 'chat.completion.chunk',
+          created: full.created,
+          model: full.model,
+          choices: [{
+            index,
+            // Like Mistral, tool calls arrive whole with the last chunk
+            delta: {
+              ...(i === 0 ? { role: 'assistant' } : {}),
+              content: piece,
+              ...(last && 'tool_calls' in message ? { tool_calls: message.tool_calls } : {}),
+            },
+            finish_reason: last ? choice.finish_reason : null,
+          }],
+          ...(last && lastChoice ? { usage: full.usage } : {}),
+        };
+        res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+      });
+    });
+    res.end('data: [DONE]\n\n');
+  }
+
+  private embeddingResponse(body: MockRequestBody) {
+    const inputs: string[] = Array.isArray(body.input) ? body.input : [String(body.input ?? '')];
+    const dimensions = this.options.embeddingDimensions ?? 64;
+    const tokens = inputs.reduce((sum, input) => sum + Math.ceil(input.length / 4), 0);
+    return {
+      id: `mock-embd-${++this.completionCount}`,
+      object: 'list',
+      model: body.model ?? 'mock',
+      data: inputs.map((input, index) => ({
+        object: 'embedding',
+        index,
+        embedding: mockEmbedding(input, dimensions),
+      })),
+      usage: { prompt_tokens: tokens, completion_tokens: 0, total_tokens: tokens },
+    };
+  }
+}
+
+function readJson(req: http.IncomingMessage): Promise<MockRequestBody> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.setEncoding('utf-8');
+    req.on('data', chunk => (data += chunk));
+    req.on('end', () => {
+      try {
+        const parsed: unknown = data ? JSON.parse(data) : {};
+        resolve(typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed as MockRequestBody : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
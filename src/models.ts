@@ -0,0 +1,178 @@
+import fs from 'fs/promises';
+import { z } from 'zod';
+
+// Registry of the models the server can use: where each is served from and what it can do
+
+// The built-in providers; configured providers add their own names
+export const ENDPOINTS = ['codestral', 'mistral'] as const;
+export type Endpoint = typeof ENDPOINTS[number] | (string & {});
+
+export const CAPABILITIES = ['chat', 'fim', 'tools', 'vision', 'embeddings'] as const;
+export type Capability = typeof CAPABILITIES[number];
+
+export interface ModelInfo {
+  id: string;
+  // Which provider the model is called on
+  endpoint: Endpoint;
+  capabilities: Capability[];
+  // Context window in tokens
+  contextLength: number;
+  description?: string;
+}
+
+export const BUILTIN_MODELS: ModelInfo[] = [
+  { id: 'codestral-latest', endpoint: 'codestral', capabilities: ['chat', 'fim', 'tools'], contextLength: 256000, description: 'Code completion, fixing and tests' },
+  { id: 'codestral-mamba-latest', endpoint: 'codestral', capabilities: ['chat'], contextLength: 256000, description: 'Code model with a linear-time architecture' },
+  { id: 'mistral-large-latest', endpoint: 'mistral', capabilities: ['chat', 'tools'], contextLength: 128000, description: 'Most capable general model' },
+  { id: 'mistral-small-latest', endpoint: 'mistral', capabilities: ['chat', 'tools', 'vision'], contextLength: 32000, description: 'Faster general model' },
+  { id: 'ministral-8b-latest', endpoint: 'mistral', capabilities: ['chat', 'tools'], contextLength: 128000, description: 'Efficient small model' },
+  { id: 'ministral-3b-latest', endpoint: 'mistral', capabilities: ['chat', 'tools'], contextLength: 128000, description: 'Fastest, lightweight model' },
+  { id: 'codestral-embed', endpoint: 'mistral', capabilities: ['embeddings'], contextLength: 8192, description: 'Code embeddings' },
+];
+
+const ModelEntrySchema = z.object({
+  id: z.string(),
+  endpoint: z.string().optional(),
+  capabilities: z.array(z.enum(CAPABILITIES)).optional(),
+  contextLength: z.number().int().positive().optional(),
+  description: z.string().optional(),
+});
+
+const ModelConfigSchema = z.object({
+  models: z.array(ModelEntrySchema).default([]),
+  // Alias -> model id, e.g. {"fast": "ministral-8b-latest"}
+  aliases: z.record(z.string()).default({}),
+  // Named sets of models and aliases that are only applied when selected, e.g. one that points
+  // the default model names at a self-hosted server
+  profiles: z.record(z.object({
+    models: z.array(ModelEntrySchema).default([]),
+    aliases: z.record(z.string()).default({}),
+  })).default({}),
+});
+
+export type ModelConfig = z.input<typeof ModelConfigSchema>;
+
+// Entry of the Mistral /models listing
+export interface RemoteModel {
+  id: string;
+  description?: string | null;
+  max_context_length?: number;
+  aliases?: string[];
+  capabilities?: {
+    completion_chat?: boolean;
+    completion_fim?: boolean;
+    function_calling?: boolean;
+    vision?: boolean;
+  };
+}
+
+export class ModelRegistry {
+  private models = new Map<string, ModelInfo>();
+  private aliases = new Map<string, string>();
+  private profiles = new Map<string, ModelConfig>();
+
+  constructor(models: ModelInfo[] = BUILTIN_MODELS, aliases: Record<string, string> = {}) {
+    this.apply({ models, aliases });
+  }
+
+  // Add or update models and aliases; fields left out of a known model keep their value
+  apply(config: ModelConfig) {
+    const parsed = ModelConfigSchema.parse(config);
+    for (const model of parsed.models) {
+      const existing = this.models.get(model.id);
+      this.models.set(model.id, {
+        id: model.id,
+        endpoint: model.endpoint ?? existing?.endpoint ?? 'mistral',
+        capabilities: model.capabilities ?? existing?.capabilities ?? ['chat'],
+        contextLength: model.contextLength ?? existing?.contextLength ?? 32000,
+        description: model.description ?? existing?.description,
+      });
+    }
+    for (const [alias, id] of Object.entries(parsed.aliases)) {
+      this.aliases.set(alias, id);
+    }
+    for (const [name, profile] of Object.entries(parsed.profiles)) {
+      this.profiles.set(name, profile);
+    }
+  }
+
+  // Apply a named profile on top of the models and aliases loaded so far
+  useProfile(name: string) {
+    const profile = this.profiles.get(name);
+    if (!profile) {
+      throw new Error(`Unknown model profile: ${name}. Available profiles: ${this.profileNames().join(', ') || 'none'}`);
+    }
+    this.apply(profile);
+  }
+
+  profileNames(): string[] {
+    return [...this.profiles.keys()];
+  }
+
+  async loadFile(file: string) {
+    this.apply(JSON.parse(await fs.readFile(file, 'utf-8')));
+  }
+
+  // Merge the models an account can use, as reported by the /models endpoint
+  addRemote(remote: RemoteModel[]) {
+    for (const model of remote) {
+      const capabilities: Capability[] = [];
+      if (model.capabilities?.completion_chat) capabilities.push('chat');
+      if (model.capabilities?.completion_fim) capabilities.push('fim');
+      if (model.capabilities?.function_calling) capabilities.push('tools');
+      if (model.capabilities?.vision) capabilities.push('vision');
+      if (model.id.includes('embed')) capabilities.push('embeddings');
+
+      // Models the registry already knows keep their endpoint; the rest are served by the general API
+      this.apply({
+        models: [{
+          id: model.id,
+          capabilities,
+          contextLength: model.max_context_length,
+          description: model.description ?? undefined,
+        }],
+      });
+      for (const alias of model.aliases ?? []) {
+        if (!this.models.has(alias) && !this.aliases.has(alias)) {
+          this.aliases.set(alias, model.id);
+        }
+      }
+    }
+  }
+
+  // Look a model up by id or alias
+  resolve(name: string): ModelInfo {
+    const model = this.models.get(this.aliases.get(name) ?? name);
+    if (!model) {
+      throw new Error(`Unknown model: ${name}. Available models: ${this.names().join(', ')}`);
+    }
+    return model;
+  }
+
+  // Resolve a model and make sure it can do what the task needs
+  require(name: string, capability: Capability, task: string = capability): ModelInfo {
+    const model = this.resolve(name);
+    if (!model.capabilities.includes(capability)) {
+      const alternatives = this.list(capability).map(candidate => candidate.id);
+      throw new Error(
+        `Model ${name} does not support ${task} (it needs ${capability}).`
+        + (alternatives.length > 0 ? ` Models that do: ${alternatives.join(', ')}` : '')
+      );
+    }
+    return model;
+  }
+
+  list(capability?: Capability): ModelInfo[] {
+    return [...this.models.values()].filter(model => !capability || model.capabilities.includes(capability));
+  }
+
+  // Ids and aliases, for tool schemas
+  names(capability?: Capability): string[] {
+    const ids = this.list(capability).map(model => model.id);
+    const aliases = [...this.aliases.entries()]
+      .filter(([, id]) => ids.includes(id))
+      .map(([alias]) => alias);
+    // A profile may point a model id at another model, so an alias can repeat an id
+    return [...new Set([...ids, ...aliases])];
+  }
+}
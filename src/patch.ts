@@ -0,0 +1,160 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { createTwoFilesPatch, parsePatch, FILE_HEADERS_ONLY } from 'diff';
+
+// Unified diffs for model output, and a careful way to apply them to files
+
+export interface HunkResult {
+  index: number;
+  oldStart: number;
+  applied: boolean;
+  // Line (1-based) where the hunk was applied, which may differ from oldStart when the file moved
+  appliedAt?: number;
+  reason?: string;
+}
+
+export interface PatchResult {
+  // Text with every applicable hunk applied
+  text: string;
+  hunks: HunkResult[];
+  applied: boolean;
+}
+
+export interface PatchFileOptions {
+  // sha256 of the file contents the patch was made against
+  expectedHash?: string;
+  dryRun?: boolean;
+  // Writes the patched text and returns where the original was backed up
+  // (defaults to copying it to `<file>.bak` and writing the file directly)
+  write?: (filePath: string, text: string) => Promise<string | undefined>;
+}
+
+export interface PatchFileResult {
+  hunks: HunkResult[];
+  written: boolean;
+  dryRun: boolean;
+  hash: string;
+  backupPath?: string;
+}
+
+export function hashText(text: string): string {
+  return crypto.createHash('sha256').update(text, 'utf-8').digest('hex');
+}
+
+export function createDiff(fileName: string, original: string, updated: string): string {
+  return createTwoFilesPatch(`a/${fileName}`, `b/${fileName}`, original, updated, undefined, undefined, {
+    headerOptions: FILE_HEADERS_ONLY,
+  });
+}
+
+function matchesAt(lines: string[], expected: string[], at: number): boolean {
+  if (at < 0 || at + expected.length > lines.length) {
+    return false;
+  }
+  return expected.every((line, i) => lines[at + i] === line);
+}
+
+// Search outward from the expected position so the nearest match wins
+function findHunk(lines: string[], expected: string[], from: number): number {
+  for (let distance = 0; distance <= lines.length; distance++) {
+    if (matchesAt(lines, expected, from - distance)) {
+      return from - distance;
+    }
+    if (distance > 0 && matchesAt(lines, expected, from + distance)) {
+      return from + distance;
+    }
+  }
+  return -1;
+}
+
+// Apply each hunk of a unified diff on its own, reporting the ones that do not match
+export function applyUnifiedDiff(original: string, patch: string): PatchResult {
+  const patches = parsePatch(patch);
+  if (patches.length !== 1) {
+    throw new Error(`Expected a diff for exactly one file, got ${patches.length}`);
+  }
+
+  const lines = original.split('\n');
+  const hunks: HunkResult[] = [];
+  // How far earlier hunks have shifted the lines below them
+  let drift = 0;
+
+  patches[0].hunks.forEach((hunk, index) => {
+    const oldLines: string[] = [];
+    const newLines: string[] = [];
+    let oldNoEol = false;
+    let newNoEol = false;
+    let previous = ' ';
+
+    for (const line of hunk.lines) {
+      const marker = line[0];
+      if (marker === '\\') {
+        oldNoEol ||= previous !== '+';
+        newNoEol ||= previous !== '-';
+        continue;
+      }
+      if (marker !== '+') {
+        oldLines.push(line.slice(1));
+      }
+      if (marker !== '-') {
+        newLines.push(line.slice(1));
+      }
+      previous = marker;
+    }
+
+    // A pure insertion at the start of the file has oldStart 0
+    const expectedAt = Math.max(0, hunk.oldStart - 1) + drift;
+    const at = findHunk(lines, oldLines, expectedAt);
+    if (at === -1) {
+      hunks.push({ index, oldStart: hunk.oldStart, applied: false, reason: 'context does not match the file' });
+      return;
+    }
+
+    let removed = oldLines.length;
+    let inserted = [...newLines];
+    // Keep the end-of-file newline in step with the "\ No newline at end of file" markers
+    const atEnd = at + removed === lines.length || (at + removed === lines.length - 1 && lines[lines.length - 1] === '');
+    if (atEnd && oldNoEol && !newNoEol) {
+      inserted = [...inserted, ''];
+    } else if (atEnd && !oldNoEol && newNoEol && lines[at + removed] === '') {
+      removed += 1;
+    }
+
+    lines.splice(at, removed, ...inserted);
+    drift += inserted.length - removed + (at - expectedAt);
+    hunks.push({ index, oldStart: hunk.oldStart, applied: true, appliedAt: at + 1 });
+  });
+
+  return {
+    text: lines.join('\n'),
+    hunks,
+    applied: hunks.every(hunk => hunk.applied),
+  };
+}
+
+// Apply a diff to a file: refuse if the file changed since the diff was made, write nothing
+// unless every hunk applies, and keep a backup of the original
+export async function applyPatchToFile(filePath: string, patch: string, options: PatchFileOptions = {}): Promise<PatchFileResult> {
+  const original = await fs.readFile(filePath, 'utf-8');
+  const hash = hashText(original);
+
+  if (options.expectedHash && options.expectedHash !== hash) {
+    throw new Error(`${filePath} has changed since the diff was created (expected sha256 ${options.expectedHash}, found ${hash}); nothing was written`);
+  }
+
+  const result = applyUnifiedDiff(original, patch);
+  const dryRun = options.dryRun ?? false;
+
+  if (!result.applied || dryRun) {
+    return { hunks: result.hunks, written: false, dryRun, hash };
+  }
+
+  const write = options.write ?? (async (target: string, text: string) => {
+    await fs.writeFile(`${target}.bak`, original, 'utf-8');
+    await fs.writeFile(target, text, 'utf-8');
+    return `${target}.bak`;
+  });
+  const backupPath = await write(filePath, result.text);
+
+  return { hunks: result.hunks, written: true, dryRun, hash: hashText(result.text), backupPath };
+}
@@ -0,0 +1,158 @@
+import fs from 'fs/promises';
+import path from 'path';
+import ignore, { Ignore } from 'ignore';
+import { isInside } from './workspace.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('policy');
+
+// Policy for every file the server writes on behalf of a client
+
+export const OVERWRITE_MODES = ['never', 'backup', 'always'] as const;
+export type OverwriteMode = typeof OVERWRITE_MODES[number];
+
+export const DEFAULT_DENY_PATTERNS = ['.git/', '.env', '.env.*', '*.pem', '*.key', 'node_modules/'];
+
+export interface WritePolicyOptions {
+  roots: string[];
+  // gitignore-style patterns, matched relative to each root
+  deny?: string[];
+  overwrite?: OverwriteMode;
+  // JSON lines file receiving one record per write or refusal
+  auditLog?: string;
+}
+
+export type WriteRefusal = 'outside_roots' | 'denied_path' | 'exists' | 'not_a_file';
+
+export class WriteRefusedError extends Error {
+  constructor(readonly reason: WriteRefusal, readonly path: string, message: string) {
+    super(message);
+    this.name = 'WriteRefusedError';
+  }
+
+  toJSON() {
+    return { error: 'write_refused', reason: this.reason, path: this.path, message: this.message };
+  }
+}
+
+export interface WriteOptions {
+  // Tool that asked for the write, for the audit log
+  tool: string;
+  // Keep a backup even when the policy would overwrite without one
+  backup?: boolean;
+}
+
+export interface WriteResult {
+  path: string;
+  created: boolean;
+  backupPath?: string;
+}
+
+// Resolve symlinks in the longest existing part of a path that may not exist yet
+async function realTarget(target: string): Promise<string> {
+  const missing: string[] = [];
+  let current = target;
+  for (;;) {
+    try {
+      return path.join(await fs.realpath(current), ...missing.reverse());
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return target;
+      }
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+export class WritePolicy {
+  readonly roots: string[];
+  readonly overwrite: OverwriteMode;
+  private readonly deny: Ignore;
+  private readonly auditLog?: string;
+
+  constructor(options: WritePolicyOptions) {
+    if (options.roots.length === 0) {
+      throw new Error('At least one write root is required');
+    }
+    this.roots = options.roots.map(root => path.resolve(root));
+    this.overwrite = options.overwrite ?? 'backup';
+    this.deny = ignore().add(options.deny ?? DEFAULT_DENY_PATTERNS);
+    this.auditLog = options.auditLog;
+  }
+
+  // Resolve a requested path (relative paths are taken from the first root) and check it against the policy
+  async check(requested: string): Promise<string> {
+    const target = await realTarget(path.resolve(this.roots[0], requested));
+    const realRoots = await Promise.all(this.roots.map(root => realTarget(root)));
+
+    const root = realRoots.find(candidate => isInside(candidate, target));
+    if (!root || root === target) {
+      throw new WriteRefusedError('outside_roots', requested, `Refusing to write ${requested}: it is outside the allowed roots`);
+    }
+
+    const relative = path.relative(root, target).split(path.sep).join('/');
+    if (this.deny.ignores(relative)) {
+      throw new WriteRefusedError('denied_path', requested, `Refusing to write ${requested}: the path matches the deny list`);
+    }
+    return target;
+  }
+
+  async write(requested: string, content: string, options: WriteOptions): Promise<WriteResult> {
+    try {
+      const target = await this.check(requested);
+
+      const existing = await fs.lstat(target).catch(() => undefined);
+      if (existing && !existing.isFile()) {
+        throw new WriteRefusedError('not_a_file', requested, `Refusing to write ${requested}: it exists and is not a regular file`);
+      }
+      if (existing && this.overwrite === 'never') {
+        throw new WriteRefusedError('exists', requested, `Refusing to overwrite ${requested}: overwriting is disabled`);
+      }
+
+      let backupPath: string | undefined;
+      if (existing && (this.overwrite === 'backup' || options.backup)) {
+        // The backup is a write of its own: a .bak symlink out of the roots or onto a denied path is refused
+        backupPath = await this.check(`${target}.bak`);
+        const existingBackup = await fs.lstat(backupPath).catch(() => undefined);
+        if (existingBackup && !existingBackup.isFile()) {
+          throw new WriteRefusedError('not_a_file', `${requested}.bak`, `Refusing to write ${requested}.bak: it exists and is not a regular file`);
+        }
+        await fs.copyFile(target, backupPath);
+      }
+
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, content, 'utf-8');
+
+      const result = { path: target, created: !existing, backupPath };
+      await this.audit({ tool: options.tool, action: 'write', path: target, bytes: Buffer.byteLength(content), created: result.created, backup: backupPath });
+      return result;
+    } catch (error) {
+      await this.audit({
+        tool: options.tool,
+        action: 'refused',
+        path: requested,
+        reason: error instanceof WriteRefusedError ? error.reason : 'error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  private async audit(record: Record<string, unknown>) {
+    if (!this.auditLog) {
+      return;
+    }
+    try {
+      await fs.mkdir(path.dirname(this.auditLog), { recursive: true });
+      await fs.appendFile(this.auditLog, JSON.stringify({ time: new Date().toISOString(), ...record }) + '\n', 'utf-8');
+    } catch (error) {
+      // Losing an audit record must not hide the outcome of the write itself
+      log.error("Error writing audit log", { error });
+    }
+  }
+}
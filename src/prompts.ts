@@ -0,0 +1,273 @@
+import fs from 'fs/promises';
+import { watch as watchDirectory, FSWatcher } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { createLogger } from './logger.js';
+
+const log = createLogger('prompts');
+
+// Prompt templates for the code tasks, built in or loaded from a configuration directory
+
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface PromptTemplate {
+  name: string;
+  description: string;
+  // System and user message templates; see renderTemplate for the syntax
+  system: string;
+  user: string;
+  arguments: PromptArgument[];
+  // Values used for variables the caller leaves out, e.g. a team's framework or style guide
+  defaults?: Record<string, string>;
+}
+
+export type PromptVariables = Record<string, string | undefined>;
+
+export const BUILTIN_TASKS = ['complete', 'fix', 'test', 'fim', 'review', 'explain', 'refactor', 'document'] as const;
+export type BuiltinTask = typeof BUILTIN_TASKS[number];
+
+const CODE_ARGUMENTS: PromptArgument[] = [
+  { name: 'code', description: 'The code to process', required: true },
+  { name: 'language', description: 'Programming language of the code' },
+  { name: 'framework', description: 'Framework or library to use, e.g. a test framework' },
+  { name: 'style_guide', description: 'Conventions the answer should follow' },
+];
+
+// Shared tail of the built-in system prompts; renders to nothing when neither variable is set
+const CONVENTIONS = '{{#framework}} Use {{framework}}.{{/framework}}{{#style_guide}}\n\nFollow this style guide:\n{{style_guide}}{{/style_guide}}';
+
+const CODE_BLOCK = 'Here is the{{#language}} {{language}}{{/language}} code:\n\n```{{language}}\n{{code}}\n```';
+
+// The code with each line prefixed by its number, so that findings can point at lines
+const NUMBERED_CODE_BLOCK = 'Here is the{{#language}} {{language}}{{/language}} code{{#file}} from {{file}}{{/file}}, with line numbers:\n\n```{{language}}\n{{numbered_code}}\n```';
+
+export const DEFAULT_PROMPTS: Record<BuiltinTask, PromptTemplate> = {
+  complete: {
+    name: 'complete',
+    description: 'Continue or complete partial code',
+    system: `You are an expert programmer. Continue or complete the provided code according to best practices.${CONVENTIONS}`,
+    user: CODE_BLOCK,
+    arguments: CODE_ARGUMENTS,
+  },
+  fix: {
+    name: 'fix',
+    description: 'Find bugs and return a corrected version',
+    system: `You are an expert programmer. Analyze the code for bugs and provide a corrected version with explanations of the fixes.${CONVENTIONS}`,
+    user: CODE_BLOCK,
+    arguments: CODE_ARGUMENTS,
+  },
+  test: {
+    name: 'test',
+    description: 'Generate unit tests for the code',
+    system: `You are an expert programmer. Generate comprehensive unit tests for the provided code using appropriate testing frameworks.${CONVENTIONS}`,
+    user: CODE_BLOCK,
+    arguments: CODE_ARGUMENTS,
+  },
+  fim: {
+    name: 'fim',
+    description: 'Fill in the code between a start and an end section',
+    system: `You are an expert programmer. Complete the code between the given start and end sections, ensuring it flows naturally.${CONVENTIONS}`,
+    user: `${CODE_BLOCK}{{#suffix}}\n\nThe code should end with:\n\n\`\`\`{{language}}\n{{suffix}}\n\`\`\`{{/suffix}}`,
+    arguments: [
+      ...CODE_ARGUMENTS,
+      { name: 'suffix', description: 'Code that comes after the part to fill in' },
+    ],
+  },
+  review: {
+    name: 'review',
+    description: 'Review the code and report findings as JSON',
+    system: 'You are an expert code reviewer. Review the code for bugs, security problems, performance problems and maintainability issues. '
+      + 'Answer with a JSON object of the form {"findings": [...]}. Each finding has start_line and end_line (1-based, as numbered in the code), '
+      + 'severity ("error", "warning" or "info"), rule (a short kebab-case identifier such as "sql-injection"), message (what is wrong and why) '
+      + `and suggestion (how to fix it). Answer with an empty list when there is nothing to report.${CONVENTIONS}`,
+    user: NUMBERED_CODE_BLOCK,
+    arguments: [
+      ...CODE_ARGUMENTS,
+      { name: 'numbered_code', description: 'The code with line numbers; filled in from code by the code_completion tool' },
+      { name: 'file', description: 'Name of the file the code comes from' },
+    ],
+  },
+  explain: {
+    name: 'explain',
+    description: 'Explain what the code does and how',
+    system: `You are an expert programmer. Explain what the code does, how it works and anything surprising in it to a developer who is new to it. Do not rewrite the code.${CONVENTIONS}`,
+    user: CODE_BLOCK,
+    arguments: CODE_ARGUMENTS,
+  },
+  refactor: {
+    name: 'refactor',
+    description: 'Restructure the code without changing its behaviour',
+    system: 'You are an expert programmer. Refactor the code{{#goal}} with this goal: {{goal}}{{/goal}}{{^goal}} to make it clearer and easier to maintain{{/goal}}, '
+      + `keeping its behaviour unchanged. Return the complete refactored code, followed by a short explanation of the changes.${CONVENTIONS}`,
+    user: CODE_BLOCK,
+    arguments: [
+      ...CODE_ARGUMENTS,
+      { name: 'goal', description: 'What the refactoring should achieve, e.g. "extract the validation into its own function"' },
+    ],
+  },
+  document: {
+    name: 'document',
+    description: 'Add documentation comments to the code',
+    system: 'You are an expert programmer. Add documentation comments to the modules, classes and functions of the code, in the idiomatic style for the language, '
+      + `without changing the code itself. Return the complete documented code.${CONVENTIONS}`,
+    user: CODE_BLOCK,
+    arguments: CODE_ARGUMENTS,
+  },
+};
+
+// `{{name}}` inserts a variable; `{{#name}}...{{/name}}` keeps its content only when the variable is set,
+// `{{^name}}...{{/name}}` only when it is not
+export function renderTemplate(template: string, variables: PromptVariables): string {
+  return template
+    .replace(/\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g, (_, kind: string, name: string, body: string) => (!variables[name] === (kind === '^') ? body : ''))
+    .replace(/\{\{(\w+)\}\}/g, (_, name: string) => variables[name] ?? '');
+}
+
+export function renderPrompt(template: PromptTemplate, variables: PromptVariables): Array<{ role: string; content: string }> {
+  const values = { ...template.defaults, ...Object.fromEntries(Object.entries(variables).filter(([, value]) => value !== undefined)) };
+  const missing = template.arguments.filter(argument => argument.required && values[argument.name] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Missing required argument${missing.length > 1 ? 's' : ''} for prompt ${template.name}: ${missing.map(argument => argument.name).join(', ')}`);
+  }
+  return [
+    { role: 'system', content: renderTemplate(template.system, values) },
+    { role: 'user', content: renderTemplate(template.user, values) },
+  ];
+}
+
+// A template file; fields left out of an override of a built-in task keep their built-in value
+const PromptFileSchema = z.object({
+  description: z.string().optional(),
+  system: z.string().optional(),
+  user: z.string().optional(),
+  arguments: z.array(z.object({
+    name: z.string().regex(/^\w+$/),
+    description: z.string().optional(),
+    required: z.boolean().optional(),
+  })).optional(),
+  defaults: z.record(z.string()).optional(),
+});
+
+const PROMPT_NAME = /^[a-z0-9_-]+$/;
+
+export class PromptLibrary {
+  private templates = new Map<string, PromptTemplate>(Object.entries(DEFAULT_PROMPTS));
+  // One watcher reloads the templates once for every subscriber
+  private readonly watchSubscribers = new Set<() => void>();
+  private stopWatcher?: () => void;
+
+  // Without a directory only the built-in prompts are available
+  constructor(private dir?: string) {}
+
+  list(): PromptTemplate[] {
+    return [...this.templates.values()];
+  }
+
+  names(): string[] {
+    return [...this.templates.keys()];
+  }
+
+  get(name: string): PromptTemplate {
+    const template = this.templates.get(name);
+    if (!template) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+    return template;
+  }
+
+  render(name: string, variables: PromptVariables) {
+    return renderPrompt(this.get(name), variables);
+  }
+
+  // (Re)load `<name>.json` templates from the directory; files that fail to parse are skipped
+  async load(): Promise<void> {
+    const templates = new Map<string, PromptTemplate>(Object.entries(DEFAULT_PROMPTS));
+    let names: string[] = [];
+    if (this.dir) {
+      try {
+        names = await fs.readdir(this.dir);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+
+    for (const file of names.filter(name => name.endsWith('.json')).sort()) {
+      const name = path.basename(file, '.json').toLowerCase();
+      try {
+        if (!PROMPT_NAME.test(name)) {
+          throw new Error(`Prompt names may only contain a-z, 0-9, _ and -`);
+        }
+        const config = PromptFileSchema.parse(JSON.parse(await fs.readFile(path.join(this.dir!, file), 'utf-8')));
+        const base = templates.get(name);
+        if (!base && (!config.system || !config.user)) {
+          throw new Error(`New prompts need both a system and a user template`);
+        }
+        templates.set(name, {
+          name,
+          description: config.description ?? base?.description ?? `Custom task ${name}`,
+          system: config.system ?? base!.system,
+          user: config.user ?? base!.user,
+          arguments: config.arguments ?? base?.arguments ?? CODE_ARGUMENTS,
+          defaults: { ...base?.defaults, ...config.defaults },
+        });
+      } catch (error) {
+        log.warning(`Error loading prompt template ${file}, skipping it`, { error });
+      }
+    }
+
+    this.templates = templates;
+  }
+
+  // Reload when files in the directory change and then call `onChange`; returns a function that unsubscribes.
+  // The first subscriber starts the watcher and the last one to leave stops it
+  watch(onChange: () => void, debounceMs: number = 200): () => void {
+    if (!this.dir) {
+      return () => {};
+    }
+    const subscriber = () => onChange();
+    this.watchSubscribers.add(subscriber);
+    this.stopWatcher ??= this.startWatching(this.dir, debounceMs);
+    return () => {
+      if (this.watchSubscribers.delete(subscriber) && this.watchSubscribers.size === 0) {
+        this.stopWatcher?.();
+        this.stopWatcher = undefined;
+      }
+    };
+  }
+
+  private startWatching(dir: string, debounceMs: number): () => void {
+    let watcher: FSWatcher;
+    try {
+      watcher = watchDirectory(dir);
+    } catch (error) {
+      log.warning(`Not watching prompt directory ${dir}`, { error });
+      return () => {};
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    watcher.on('change', () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        this.load()
+          .then(() => {
+            for (const subscriber of this.watchSubscribers) {
+              subscriber();
+            }
+          })
+          .catch(error => log.warning("Error reloading prompt templates", { error }));
+      }, debounceMs);
+    });
+    watcher.on('error', () => watcher.close());
+
+    return () => {
+      clearTimeout(timer);
+      watcher.close();
+    };
+  }
+}
@@ -0,0 +1,151 @@
+import { z } from 'zod';
+import type { RateLimitOptions } from './ratelimit.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('providers');
+
+// Backends that serve models: the two Mistral APIs, and OpenAI-compatible servers such as vLLM, Ollama or llama.cpp
+
+export const PROVIDER_TYPES = ['mistral', 'openai'] as const;
+export type ProviderType = typeof PROVIDER_TYPES[number];
+
+// How a provider fills in the middle: Mistral's /fim/completions, OpenAI-style /completions with a suffix,
+// or llama.cpp's /infill
+export const FIM_ROUTES = ['fim', 'completions', 'infill', 'none'] as const;
+export type FimRoute = typeof FIM_ROUTES[number];
+
+export interface ProviderConfig {
+  type: ProviderType;
+  baseUrl: string;
+  // Used in turn: a rejected key is dropped, a rate-limited one hands over to the next; none for servers without auth
+  apiKeys: string[];
+  fim: FimRoute;
+  // Replaces the client-wide request timeout, e.g. for slow local models
+  timeoutMs?: number;
+  // A budget of its own; without it the provider shares the client's rate limiter
+  rateLimit?: RateLimitOptions;
+}
+
+const ProviderFileSchema = z.object({
+  type: z.enum(PROVIDER_TYPES).default('openai'),
+  baseUrl: z.string().url(),
+  // Names of environment variables holding the keys, so the file carries no secrets
+  apiKeyEnv: z.union([z.string(), z.array(z.string())]).optional(),
+  fim: z.enum(FIM_ROUTES).optional(),
+  timeoutMs: z.number().int().positive().optional(),
+  requestsPerMinute: z.number().int().positive().optional(),
+  tokensPerMinute: z.number().int().positive().optional(),
+});
+
+export type ProviderFileConfig = z.input<typeof ProviderFileSchema>;
+
+export const defaultFimRoute = (type: ProviderType): FimRoute => type === 'mistral' ? 'fim' : 'completions';
+
+// Several keys can share one variable, separated by commas
+export const splitKeys = (value: string | undefined): string[] =>
+  (value ?? '').split(',').map(key => key.trim()).filter(Boolean);
+
+// Providers from the `providers` section of the model config, with their keys taken from the environment
+export function parseProviders(config: unknown, env: NodeJS.ProcessEnv = process.env): Record<string, ProviderConfig> {
+  const parsed = z.record(ProviderFileSchema).parse(config ?? {});
+  return Object.fromEntries(Object.entries(parsed).map(([name, provider]) => {
+    const variables = typeof provider.apiKeyEnv === 'string' ? [provider.apiKeyEnv] : provider.apiKeyEnv ?? [];
+    const missing = variables.filter(variable => !env[variable]);
+    if (missing.length > 0) {
+      throw new Error(`Provider ${name} takes its API keys from ${missing.join(', ')}, which ${missing.length > 1 ? 'are' : 'is'} not set`);
+    }
+    const rateLimited = provider.requestsPerMinute !== undefined || provider.tokensPerMinute !== undefined;
+    return [name, {
+      type: provider.type,
+      baseUrl: provider.baseUrl,
+      apiKeys: variables.flatMap(variable => splitKeys(env[variable])),
+      fim: provider.fim ?? defaultFimRoute(provider.type),
+      timeoutMs: provider.timeoutMs,
+      rateLimit: rateLimited ? { requestsPerMinute: provider.requestsPerMinute, tokensPerMinute: provider.tokensPerMinute } : undefined,
+    }];
+  }));
+}
+
+// The keys of one provider, in the order they are tried
+export class KeyRing {
+  private keys: string[];
+  private position = 0;
+
+  constructor(keys: string[]) {
+    this.keys = [...keys];
+  }
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  current(): string | undefined {
+    return this.keys[this.position % Math.max(1, this.keys.length)];
+  }
+
+  // The API refused the key; returns whether another key is left to try. The last key is kept,
+  // so that the error the API gives for it reaches the caller
+  revoke(key: string): boolean {
+    const index = this.keys.indexOf(key);
+    if (index === -1 || this.keys.length === 1) {
+      return index === -1 && this.keys.length > 0;
+    }
+    this.keys.splice(index, 1);
+    this.position = this.position % this.keys.length;
+    return true;
+  }
+
+  // The key hit a rate limit; later requests use the next one
+  rotate(key: string) {
+    if (this.keys.length > 1 && this.current() === key) {
+      this.position = (this.position + 1) % this.keys.length;
+    }
+  }
+
+  // New keys, e.g. after credentials were rotated
+  replace(keys: string[]) {
+    this.keys = [...keys];
+    this.position = 0;
+  }
+}
+
+// Where fresh keys come from on a reload, by provider name
+export type KeySource = () => Record<string, string[]> | Promise<Record<string, string[]>>;
+
+// Give each provider the keys the source has for it now. A provider without keys in the source keeps its
+// current ones, so a variable removed by mistake does not cut a provider off; returns the providers updated
+export async function reloadKeys(
+  target: { rotateKeys(provider: string, keys: string[]): void },
+  source: KeySource
+): Promise<string[]> {
+  const updated: string[] = [];
+  for (const [provider, keys] of Object.entries(await source())) {
+    if (keys.length === 0) {
+      continue;
+    }
+    try {
+      target.rotateKeys(provider, keys);
+      updated.push(provider);
+    } catch (error) {
+      log.warning(`Not reloading the keys of provider ${provider}`, { error });
+    }
+  }
+  log.notice(`Reloaded API keys for ${updated.length > 0 ? updated.join(', ') : 'no providers'}`);
+  return updated;
+}
+
+// Reload the keys whenever the process receives the signal, e.g. after the keys were rotated;
+// returns a function that stops listening
+export function reloadKeysOn(
+  signal: NodeJS.Signals,
+  target: { rotateKeys(provider: string, keys: string[]): void },
+  source: KeySource
+): () => void {
+  const listener = () => {
+    reloadKeys(target, source).catch(error => log.warning("Error reloading API keys", { error }));
+  };
+  process.on(signal, listener);
+  return () => {
+    process.off(signal, listener);
+  };
+}
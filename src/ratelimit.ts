@@ -0,0 +1,119 @@
+import { sleep, untilAborted } from './retry.js';
+
+// Client-side rate limiting shared by every Mistral endpoint
+
+export interface RateLimitOptions {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+// Token bucket that refills continuously up to its capacity
+export class TokenBucket {
+  private available: number;
+  private lastRefill: number;
+  private readonly refillPerMs: number;
+
+  constructor(private readonly capacity: number, refillPerMinute: number = capacity) {
+    if (capacity <= 0 || refillPerMinute <= 0) {
+      throw new Error('Token bucket capacity and refill rate must be positive');
+    }
+    this.available = capacity;
+    this.lastRefill = Date.now();
+    this.refillPerMs = refillPerMinute / 60000;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.available = Math.min(this.capacity, this.available + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  // Milliseconds until `amount` can be taken (0 if it can be taken now)
+  delayFor(amount: number): number {
+    this.refill();
+    // Requests larger than the bucket would never fit, so they wait for a full bucket instead
+    const needed = Math.min(amount, this.capacity);
+    if (this.available >= needed) {
+      return 0;
+    }
+    return Math.ceil((needed - this.available) / this.refillPerMs);
+  }
+
+  take(amount: number) {
+    this.refill();
+    this.available -= amount;
+  }
+
+  // Return unused tokens (or take more when the estimate was too low)
+  adjust(amount: number) {
+    this.refill();
+    this.available = Math.min(this.capacity, this.available + amount);
+  }
+}
+
+// Limits requests and tokens per minute; callers wait in FIFO order
+export class RateLimiter {
+  private readonly requests?: TokenBucket;
+  private readonly tokens?: TokenBucket;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: RateLimitOptions = {}) {
+    if (options.requestsPerMinute) {
+      this.requests = new TokenBucket(options.requestsPerMinute);
+    }
+    if (options.tokensPerMinute) {
+      this.tokens = new TokenBucket(options.tokensPerMinute);
+    }
+  }
+
+  // Wait until one request and `estimatedTokens` tokens are available, then reserve them.
+  // A cancelled caller stops waiting at once and its turn passes without reserving anything.
+  acquire(estimatedTokens: number, signal?: AbortSignal): Promise<void> {
+    const turn = this.queue.then(async () => {
+      for (;;) {
+        if (signal?.aborted) {
+          return;
+        }
+        const delay = Math.max(
+          this.requests?.delayFor(1) ?? 0,
+          this.tokens?.delayFor(estimatedTokens) ?? 0
+        );
+        if (delay === 0) {
+          break;
+        }
+        // Ends early on abort; the check above then gives up the turn
+        await sleep(delay, signal).catch(() => undefined);
+      }
+      this.requests?.take(1);
+      this.tokens?.take(estimatedTokens);
+    });
+    this.queue = turn;
+    return untilAborted(turn, signal);
+  }
+
+  // Correct the token reservation once the real usage is known
+  settle(estimatedTokens: number, actualTokens: number) {
+    this.tokens?.adjust(estimatedTokens - actualTokens);
+  }
+}
+
+export interface EstimatableRequest {
+  messages?: Array<{ content: string }>;
+  tools?: unknown[];
+  input?: string[];
+  prompt?: string;
+  suffix?: string;
+  max_tokens?: number;
+  // Each of the n choices can use up to max_tokens
+  n?: number;
+}
+
+// Rough token estimate used to reserve capacity before the real usage is known
+export function estimateTokens(body: EstimatableRequest): number {
+  const text = (body.messages ?? []).map(message => message.content).join('')
+    + (body.prompt ?? '')
+    + (body.suffix ?? '')
+    + (body.input ?? []).join('')
+    + (body.tools ? JSON.stringify(body.tools) : '');
+  return Math.ceil(text.length / 4) + (body.max_tokens ?? 0) * (body.n ?? 1);
+}
@@ -0,0 +1,123 @@
+import path from 'path';
+
+// Markdown answers from the chat models, split into explanation and fenced code blocks
+
+export interface CodeBlock {
+  // First word of the fence's info string, e.g. "ts"
+  language?: string;
+  // File the block belongs to, from the info string or a heading right above the fence
+  filename?: string;
+  code: string;
+  // False when the answer ended inside the block, e.g. at max_tokens
+  complete: boolean;
+}
+
+export interface ParsedResponse {
+  // Prose outside the code blocks
+  explanation: string;
+  blocks: CodeBlock[];
+}
+
+const FENCE = /^( {0,3})(`{3,}|~{3,})[ \t]*(.*)$/;
+
+const FILENAME_ATTRIBUTE = /\b(?:title|file(?:name)?|path)=(?:"([^"]+)"|'([^']+)'|(\S+))/i;
+
+// Relative or absolute path with a file extension, e.g. "src/a.ts"
+const looksLikePath = (word: string) => /^[\w@./+-]*\.[A-Za-z][\w+-]*$/.test(word);
+
+// The filename of a line that names a file on its own: "src/a.ts", "**src/a.ts**", "### File: `src/a.ts`:" and the like
+function filenameLine(line: string): string | undefined {
+  const text = line.trim()
+    .replace(/^#{1,6}\s+/, '')
+    .replace(/[*`]/g, '')
+    .replace(/^(?:file(?:name)?|path)\s*:\s*/i, '')
+    .replace(/:$/, '')
+    .trim();
+  return looksLikePath(text) ? text : undefined;
+}
+
+// Language and filename from an info string such as "ts", "ts:src/a.ts", "ts src/a.ts", "ts title=src/a.ts" or "src/a.ts"
+function parseInfo(info: string): { language?: string; filename?: string } {
+  const attribute = info.match(FILENAME_ATTRIBUTE);
+  const [first = '', second] = info.replace(FILENAME_ATTRIBUTE, '').trim().split(/\s+/);
+  const filename = attribute ? attribute[1] ?? attribute[2] ?? attribute[3] : undefined;
+
+  const colon = first.indexOf(':');
+  if (colon > 0 && looksLikePath(first.slice(colon + 1))) {
+    return { language: first.slice(0, colon), filename: filename ?? first.slice(colon + 1) };
+  }
+  if (looksLikePath(first)) {
+    return { language: path.extname(first).slice(1) || undefined, filename: filename ?? first };
+  }
+  return {
+    language: first || undefined,
+    filename: filename ?? (second && looksLikePath(second) ? second : undefined),
+  };
+}
+
+// Parse fenced code blocks line by line. A closing fence uses the opening fence's character, at least as many times
+// and no info string. Fences with an info string inside a block are taken as nested blocks, which models often emit
+// without lengthening the outer fence. An unterminated block runs to the end of the answer.
+export function parseResponse(content: string): ParsedResponse {
+  const lines = content.split(/\r?\n/);
+  const blocks: CodeBlock[] = [];
+  const prose: string[] = [];
+
+  let open: { fence: string; indent: number; language?: string; filename?: string; lines: string[]; depth: number } | undefined;
+
+  for (const line of lines) {
+    const fence = line.match(FENCE);
+
+    if (!open) {
+      if (fence && !(fence[2][0] === '`' && fence[3].includes('`'))) {
+        const info = parseInfo(fence[3]);
+        // A filename on the last prose line before the fence names the block
+        const previous = [...prose].reverse().find(text => text.trim() !== '');
+        const hint = previous !== undefined ? filenameLine(previous) : undefined;
+        open = { fence: fence[2], indent: fence[1].length, ...info, filename: info.filename ?? hint, lines: [], depth: 0 };
+      } else {
+        prose.push(line);
+      }
+      continue;
+    }
+
+    if (fence && fence[2][0] === open.fence[0] && fence[2].length >= open.fence.length) {
+      if (fence[3].trim() !== '') {
+        open.depth++;
+      } else if (open.depth > 0) {
+        open.depth--;
+      } else {
+        blocks.push(toBlock(open, true));
+        // Keep a gap in the prose where the block was
+        prose.push('');
+        open = undefined;
+        continue;
+      }
+    }
+    open.lines.push(line);
+  }
+  if (open) {
+    blocks.push(toBlock(open, false));
+  }
+
+  return {
+    explanation: prose.join('\n').replace(/\n{3,}/g, '\n\n').trim(),
+    blocks,
+  };
+}
+
+function toBlock(open: { indent: number; language?: string; filename?: string; lines: string[] }, complete: boolean): CodeBlock {
+  // Content lines lose up to as much indentation as the opening fence had
+  const code = open.lines
+    .map(line => line.replace(new RegExp(`^ {0,${open.indent}}`), ''))
+    .join('\n')
+    // Blank lines around the code go, indentation of the first line stays
+    .replace(/^(?:[ \t]*\n)+/, '')
+    .trimEnd();
+  return { language: open.language, filename: open.filename, code, complete };
+}
+
+// The code of an answer: every block joined by blank lines, or the whole answer when it has no blocks
+export function codeOf(parsed: ParsedResponse, content: string): string {
+  return parsed.blocks.length > 0 ? parsed.blocks.map(block => block.code).join('\n\n') : content;
+}
@@ -0,0 +1,126 @@
+import { AxiosError } from 'axios';
+import { createLogger } from './logger.js';
+
+const log = createLogger('retry');
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Only these statuses are retried; the request was rejected before any work was done
+  retryableStatuses: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+};
+
+// A call that was cancelled by the client or got no response in time; never retried
+export class RequestAbortedError extends Error {
+  constructor(readonly reason: 'cancelled' | 'timeout', message: string, readonly timeoutMs?: number) {
+    super(message);
+    this.name = 'RequestAbortedError';
+  }
+
+  toJSON() {
+    return { error: `request_${this.reason}`, timeout_ms: this.timeoutMs, message: this.message };
+  }
+}
+
+export const cancelledError = () => new RequestAbortedError('cancelled', 'The request was cancelled');
+
+// Settle with `promise`, or reject as soon as the signal aborts
+export function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(cancelledError());
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(cancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+// Wait `ms`, or reject as soon as the signal aborts
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(cancelledError());
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Parse a Retry-After header given either in seconds or as an HTTP date
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+  return undefined;
+}
+
+// Exponential backoff with full jitter, unless the server told us how long to wait
+export function computeRetryDelay(policy: RetryPolicy, attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, policy.maxDelayMs);
+  }
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+function isRetryable(error: unknown, policy: RetryPolicy): error is AxiosError {
+  return error instanceof AxiosError
+    && error.response !== undefined
+    && policy.retryableStatuses.includes(error.response.status);
+}
+
+// Run `fn`, retrying failures whose status code is listed in the policy; an aborted signal ends the backoff
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxRetries || !isRetryable(error, policy)) {
+        throw error;
+      }
+
+      const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+      const delay = computeRetryDelay(policy, attempt, retryAfter);
+      log.warning(`Mistral API returned ${error.response?.status}, retrying`, {
+        status: error.response?.status,
+        delay_ms: delay,
+        attempt: attempt + 1,
+        max_retries: policy.maxRetries,
+      });
+      await sleep(delay, signal);
+    }
+  }
+}
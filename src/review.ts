@@ -0,0 +1,113 @@
+import { Ajv } from 'ajv';
+import { parseResponse } from './response.js';
+
+// Findings of the review task, checked against a schema and exportable as SARIF for code scanning tools
+
+export const SEVERITIES = ['error', 'warning', 'info'] as const;
+export type Severity = typeof SEVERITIES[number];
+
+export interface Finding {
+  file: string;
+  // 1-based and inclusive
+  start_line: number;
+  end_line: number;
+  severity: Severity;
+  // Short kebab-case identifier, e.g. "sql-injection"
+  rule: string;
+  message: string;
+  suggestion?: string;
+}
+
+// What the model is asked to answer; also sent as the response format
+export const REVIEW_SCHEMA = {
+  type: 'object',
+  properties: {
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          file: { type: 'string' },
+          start_line: { type: 'integer', minimum: 1 },
+          end_line: { type: 'integer', minimum: 1 },
+          severity: { type: 'string', enum: [...SEVERITIES] },
+          rule: { type: 'string', minLength: 1 },
+          message: { type: 'string', minLength: 1 },
+          suggestion: { type: 'string' },
+        },
+        required: ['start_line', 'severity', 'rule', 'message'],
+      },
+    },
+  },
+  required: ['findings'],
+};
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validateReview = ajv.compile<{ findings: Array<Omit<Finding, 'file' | 'end_line'> & { file?: string; end_line?: number }> }>(REVIEW_SCHEMA);
+
+// The findings of a review answer. The JSON may come in a code block; findings without a file belong to `file`,
+// and a finding without an end line covers its start line
+export function parseReview(content: string, file: string): Finding[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    const block = parseResponse(content).blocks[0];
+    try {
+      json = JSON.parse(block?.code ?? '');
+    } catch {
+      throw new Error(`The review is not valid JSON: ${content}`);
+    }
+  }
+  if (!validateReview(json)) {
+    throw new Error(`The review does not match the findings schema (${ajv.errorsText(validateReview.errors)}): ${content}`);
+  }
+  return json.findings.map(finding => ({
+    file: finding.file || file,
+    start_line: finding.start_line,
+    end_line: Math.max(finding.end_line ?? finding.start_line, finding.start_line),
+    severity: finding.severity,
+    rule: finding.rule,
+    message: finding.message,
+    ...(finding.suggestion ? { suggestion: finding.suggestion } : {}),
+  }));
+}
+
+const SARIF_LEVELS: Record<Severity, string> = { error: 'error', warning: 'warning', info: 'note' };
+
+// A SARIF 2.1.0 log with one run; each rule is listed once and the suggestion is added to the message
+export function toSarif(findings: Finding[], tool: { name: string; version: string }) {
+  const rules = [...new Set(findings.map(finding => finding.rule))];
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: tool.name,
+          version: tool.version,
+          rules: rules.map(id => ({ id, shortDescription: { text: id } })),
+        },
+      },
+      results: findings.map(finding => ({
+        ruleId: finding.rule,
+        ruleIndex: rules.indexOf(finding.rule),
+        level: SARIF_LEVELS[finding.severity],
+        message: { text: finding.suggestion ? `${finding.message}\n\nSuggestion: ${finding.suggestion}` : finding.message },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: finding.file.split('\\').join('/') },
+            region: { startLine: finding.start_line, endLine: finding.end_line },
+          },
+        }],
+      })),
+    }],
+  };
+}
+
+// Prefix each line with its number, for prompts that ask about line ranges
+export function numberLines(code: string): string {
+  const lines = code.split('\n');
+  const width = String(lines.length).length;
+  return lines.map((line, i) => `${String(i + 1).padStart(width)} | ${line}`).join('\n');
+}
@@ -0,0 +1,315 @@
+import type { StreamProgressHandler } from './stream.js';
+import type { CompletionResponse } from './mistral.js';
+
+// Secrets and personal data found in code before it is sent to the API, blocked or swapped for placeholders
+
+// 'placeholder' sends placeholders and puts the values back into the answer; 'block' refuses to send anything
+export const SCRUB_MODES = ['off', 'placeholder', 'block'] as const;
+export type ScrubMode = typeof SCRUB_MODES[number];
+
+export type ScrubKind = 'secret' | 'pii';
+
+export interface ScrubRule {
+  name: string;
+  kind: ScrubKind;
+  // Must be global; a named group `value` narrows the match to the sensitive part, e.g. the password of a URL
+  pattern: RegExp;
+  // Rejects matches that only look sensitive, e.g. example values
+  accept?: (value: string) => boolean;
+}
+
+export interface ScrubFinding {
+  rule: string;
+  kind: ScrubKind;
+  start: number;
+  end: number;
+  value: string;
+}
+
+// What was replaced, without the values themselves
+export interface Redaction {
+  rule: string;
+  kind: ScrubKind;
+  placeholder: string;
+  occurrences: number;
+}
+
+// Values that stand for a secret rather than being one
+const NOT_A_SECRET = /^(<[^>]*>|\$\{?\w+\}?|\{\{.*\}\}|x+|\*+|\.+|changeme|example|password|secret|your[-_ ]?\w*|none|null|undefined|true|false)$/i;
+const plausibleSecret = (value: string) => !NOT_A_SECRET.test(value) && !/\s/.test(value);
+
+export const SECRET_RULES: ScrubRule[] = [
+  { name: 'private_key', kind: 'secret', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { name: 'jwt', kind: 'secret', pattern: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]+/g },
+  { name: 'aws_access_key', kind: 'secret', pattern: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g },
+  { name: 'github_token', kind: 'secret', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { name: 'api_key', kind: 'secret', pattern: /\b(?:(?:sk|pk|rk)[-_](?:live[-_]|test[-_]|proj[-_])?[A-Za-z0-9_-]{16,}|xox[abposr]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35})/g },
+  { name: 'bearer_token', kind: 'secret', pattern: /\bBearer\s+(?<value>[A-Za-z0-9._~+/=-]{16,})/g },
+  { name: 'connection_string', kind: 'secret', pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@'"]+:(?<value>[^\s@/'"]+)@/gi, accept: plausibleSecret },
+  { name: 'connection_string', kind: 'secret', pattern: /\b(?:Password|Pwd)\s*=\s*(?<value>[^;'"\s]+)/gi, accept: plausibleSecret },
+  // KEY=value lines of .env files and shell scripts
+  {
+    name: 'env_assignment',
+    kind: 'secret',
+    pattern: /^[ \t]*(?:export[ \t]+)?[A-Z0-9_]*(?:KEY|SECRET|TOKEN|PASSWORD|PASSWD|PWD|CREDENTIALS?)[A-Z0-9_]*[ \t]*=[ \t]*(["']?)(?<value>[^\s"'#$][^\s"'#]*)\1/gm,
+    accept: plausibleSecret,
+  },
+  // String literals assigned to secret-looking names in code and config files
+  {
+    name: 'secret_assignment',
+    kind: 'secret',
+    pattern: /[\w.-]*(?:password|passwd|secret|token|api[-_]?key|access[-_]?key|private[-_]?key)[\w-]*["']?\s*[:=]\s*(["'])(?<value>[^"'\n]{8,})\1/gi,
+    accept: plausibleSecret,
+  },
+];
+
+// Luhn checksum, so that long numbers in code are not taken for card numbers
+function luhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Personal data is only looked for when enabled by name, since it is easily confused with ordinary code
+export const PII_RULES: Record<string, ScrubRule> = {
+  email: { name: 'email', kind: 'pii', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g },
+  phone: { name: 'phone', kind: 'pii', pattern: /\+\d{1,3}[ .-]?\(?\d{1,4}\)?(?:[ .-]?\d{2,4}){2,4}\b/g },
+  credit_card: { name: 'credit_card', kind: 'pii', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, accept: luhn },
+  iban: { name: 'iban', kind: 'pii', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g },
+  us_ssn: { name: 'us_ssn', kind: 'pii', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  ipv4: { name: 'ipv4', kind: 'pii', pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g },
+};
+
+export interface ScrubberOptions {
+  mode: ScrubMode;
+  // Names of PII_RULES to apply
+  pii?: string[];
+  // Further patterns, by name, for data that must not leave the machine
+  patterns?: Record<string, string>;
+}
+
+// Every match of the rules, without overlaps; earlier and longer matches win, then earlier rules
+export function findSensitive(text: string, rules: ScrubRule[]): ScrubFinding[] {
+  const matches = rules.flatMap((rule, order) => [...text.matchAll(rule.pattern)].flatMap(match => {
+    const value = match.groups?.value ?? match[0];
+    if (!value || (rule.accept && !rule.accept(value))) {
+      return [];
+    }
+    const start = match.index! + (match.groups?.value !== undefined ? match[0].lastIndexOf(value) : 0);
+    return [{ rule: rule.name, kind: rule.kind, start, end: start + value.length, value, order }];
+  }));
+  matches.sort((a, b) => a.start - b.start || b.end - a.end || a.order - b.order);
+
+  const findings: ScrubFinding[] = [];
+  for (const { order: _order, ...match } of matches) {
+    if (findings.length === 0 || match.start >= findings[findings.length - 1].end) {
+      findings.push(match);
+    }
+  }
+  return findings;
+}
+
+export class SensitiveDataError extends Error {
+  constructor(readonly findings: Array<{ rule: string; kind: ScrubKind; occurrences: number }>) {
+    super(`Refusing to send code containing ${findings.map(finding => `${finding.rule} (${finding.occurrences})`).join(', ')}`);
+    this.name = 'SensitiveDataError';
+  }
+
+  toJSON() {
+    return { error: 'sensitive_data', message: this.message, findings: this.findings };
+  }
+}
+
+// The placeholders of one tool call, so the same value gets the same placeholder in every message
+export class ScrubSession {
+  private byValue = new Map<string, Redaction>();
+  private values = new Map<string, string>();
+  private counters = new Map<string, number>();
+
+  constructor(private rules: ScrubRule[], readonly mode: Exclude<ScrubMode, 'off'>) {}
+
+  get redactions(): Redaction[] {
+    return [...this.byValue.values()].map(redaction => ({ ...redaction }));
+  }
+
+  scrub(text: string): string {
+    const findings = findSensitive(text, this.rules);
+    if (findings.length === 0) {
+      return text;
+    }
+    if (this.mode === 'block') {
+      const counts = new Map<string, { rule: string; kind: ScrubKind; occurrences: number }>();
+      for (const finding of findings) {
+        const entry = counts.get(finding.rule) ?? { rule: finding.rule, kind: finding.kind, occurrences: 0 };
+        entry.occurrences++;
+        counts.set(finding.rule, entry);
+      }
+      throw new SensitiveDataError([...counts.values()]);
+    }
+
+    let scrubbed = '';
+    let position = 0;
+    for (const finding of findings) {
+      scrubbed += text.slice(position, finding.start) + this.placeholderFor(finding);
+      position = finding.end;
+    }
+    return scrubbed + text.slice(position);
+  }
+
+  // Every string in a JSON value, e.g. tool parameters; object keys are kept as they are
+  scrubValue<T>(value: T): T {
+    if (typeof value === 'string') {
+      return this.scrub(value) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.scrubValue(item)) as T;
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.scrubValue(item)])) as T;
+    }
+    return value;
+  }
+
+  // Tool call arguments, as a JSON string or already parsed; strings that are not JSON are scrubbed as text
+  scrubArguments<T extends string | Record<string, unknown>>(args: T): T {
+    if (typeof args !== 'string') {
+      return this.scrubValue(args);
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(args);
+    } catch {
+      return this.scrub(args) as T;
+    }
+    const scrubbed = this.scrubValue(parsed);
+    return (this.values.size === 0 || JSON.stringify(scrubbed) === JSON.stringify(parsed) ? args : JSON.stringify(scrubbed)) as T;
+  }
+
+  restore(text: string): string {
+    let restored = text;
+    for (const [placeholder, value] of this.values) {
+      restored = restored.split(placeholder).join(value);
+    }
+    return restored;
+  }
+
+  // Placeholders inside JSON strings get their value escaped
+  private restoreJson(json: string): string {
+    let restored = json;
+    for (const [placeholder, value] of this.values) {
+      restored = restored.split(placeholder).join(JSON.stringify(value).slice(1, -1));
+    }
+    return restored;
+  }
+
+  // The completion with the original values back in its text and tool call arguments
+  restoreCompletion(completion: CompletionResponse): CompletionResponse {
+    if (this.values.size === 0) {
+      return completion;
+    }
+    return {
+      ...completion,
+      choices: completion.choices.map(choice => ({
+        ...choice,
+        message: {
+          ...choice.message,
+          content: this.restore(choice.message.content),
+          ...(choice.message.tool_calls ? {
+            tool_calls: choice.message.tool_calls.map(call => ({
+              ...call,
+              function: {
+                ...call.function,
+                arguments: typeof call.function.arguments === 'string'
+                  ? this.restoreJson(call.function.arguments)
+                  : JSON.parse(this.restoreJson(JSON.stringify(call.function.arguments))),
+              },
+            })),
+          } : {}),
+        },
+      })),
+    };
+  }
+
+  // Streamed text with the values restored; the end of a chunk that may be the start of a placeholder waits for the next one
+  restoreProgress(handler?: StreamProgressHandler): StreamProgressHandler | undefined {
+    if (!handler) {
+      return undefined;
+    }
+    const sent = new Map<number, string>();
+    return async (_delta, text, index) => {
+      const complete = text.slice(0, text.length - this.partialPlaceholderAt(text));
+      const restored = this.restore(complete);
+      const previous = sent.get(index) ?? '';
+      if (restored.length > previous.length) {
+        sent.set(index, restored);
+        await handler(restored.slice(previous.length), restored, index);
+      }
+    };
+  }
+
+  private partialPlaceholderAt(text: string): number {
+    const placeholders = [...this.values.keys()];
+    for (let length = Math.min(text.length, Math.max(0, ...placeholders.map(placeholder => placeholder.length - 1))); length > 0; length--) {
+      const tail = text.slice(-length);
+      if (placeholders.some(placeholder => placeholder.startsWith(tail))) {
+        return length;
+      }
+    }
+    return 0;
+  }
+
+  private placeholderFor(finding: ScrubFinding): string {
+    const existing = this.byValue.get(finding.value);
+    if (existing) {
+      existing.occurrences++;
+      return existing.placeholder;
+    }
+    const count = (this.counters.get(finding.rule) ?? 0) + 1;
+    this.counters.set(finding.rule, count);
+    const placeholder = `__REDACTED_${finding.rule.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_${count}__`;
+    this.byValue.set(finding.value, { rule: finding.rule, kind: finding.kind, placeholder, occurrences: 1 });
+    this.values.set(placeholder, finding.value);
+    return placeholder;
+  }
+}
+
+export class Scrubber {
+  readonly mode: ScrubMode;
+  private rules: ScrubRule[];
+
+  constructor(options: ScrubberOptions) {
+    this.mode = options.mode;
+    const pii = (options.pii ?? []).map(name => {
+      const rule = PII_RULES[name];
+      if (!rule) {
+        throw new Error(`Unknown PII pattern "${name}"; known patterns: ${Object.keys(PII_RULES).join(', ')}`);
+      }
+      return rule;
+    });
+    const custom = Object.entries(options.patterns ?? {}).map(([name, source]): ScrubRule => ({
+      name,
+      kind: 'pii',
+      pattern: new RegExp(source, 'g'),
+    }));
+    this.rules = [...SECRET_RULES, ...pii, ...custom];
+  }
+
+  // A session for one tool call, or nothing when scrubbing is off
+  session(): ScrubSession | undefined {
+    return this.mode === 'off' ? undefined : new ScrubSession(this.rules, this.mode);
+  }
+
+  scan(text: string): ScrubFinding[] {
+    return findSensitive(text, this.rules);
+  }
+}
@@ -0,0 +1,344 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { MistralAPI } from './mistral.js';
+import { hashText } from './patch.js';
+import type { Workspace } from './workspace.js';
+import { Scrubber, ScrubSession, SensitiveDataError } from './scrub.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('semantic');
+
+// Local vector index of the workspace, chunked by top-level function and class
+
+export interface CodeChunk {
+  // 1-based, inclusive
+  startLine: number;
+  endLine: number;
+  symbol?: string;
+  text: string;
+}
+
+export interface SearchHit {
+  path: string;
+  uri: string;
+  startLine: number;
+  endLine: number;
+  symbol?: string;
+  score: number;
+  preview: string;
+}
+
+export interface SemanticIndexOptions {
+  // JSON file holding the index between runs
+  file: string;
+  // Files larger than this are not indexed
+  maxFileBytes?: number;
+  // Secrets in the chunks are replaced before they are embedded; in block mode files with secrets are not indexed
+  scrubber?: Scrubber;
+}
+
+export interface IndexStats {
+  indexed: number;
+  unchanged: number;
+  removed: number;
+  chunks: number;
+}
+
+interface IndexedChunk {
+  startLine: number;
+  endLine: number;
+  symbol?: string;
+  // Float32 vector, base64 encoded to keep the index file small
+  vector: string;
+}
+
+interface IndexedFile {
+  // Path relative to its workspace root
+  name: string;
+  hash: string;
+  size: number;
+  mtimeMs: number;
+  chunks: IndexedChunk[];
+}
+
+interface IndexData {
+  version: number;
+  // Keyed by file URI, since relative names can repeat across roots
+  files: Record<string, IndexedFile>;
+}
+
+const INDEX_VERSION = 1;
+
+// Longest chunk before it is split again at nested declarations, or at fixed windows
+const MAX_CHUNK_LINES = 80;
+
+// Lines before the first method that are not worth a chunk of their own
+const MIN_HEADER_LINES = 5;
+
+// Characters of a chunk sent for embedding
+const MAX_CHUNK_CHARS = 8000;
+
+const DECLARATION = /^\s*(?:export\s+)?(?:default\s+)?(?:pub(?:\([\w:]+\))?\s+)?(?:public\s+|private\s+|protected\s+|internal\s+)?(?:static\s+)?(?:abstract\s+)?(?:async\s+)?(?:(?:function|class|interface|enum|type|def|fn|func|struct|trait|impl|module|namespace)\b|(?:const|let|var)\s+[A-Za-z_$][\w$]*\s*=\s*(?:async\s*)?(?:\(|function\b|[A-Za-z_$][\w$]*\s*=>))/;
+
+const SYMBOL = /(?:function\*?|class|interface|enum|type|def|fn|func|struct|trait|impl|module|namespace|const|let|var)\s+([A-Za-z_$][\w$]*)/;
+
+// Comments and decorators directly above a declaration belong to it
+const LEADING = /^\s*(?:\/\/|\/\*|\*|#|@)/;
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+function declarationStarts(lines: string[], from: number, to: number, nested: boolean): number[] {
+  const starts: number[] = [];
+  for (let i = from; i < to; i++) {
+    if (!DECLARATION.test(lines[i]) || (!nested && indentOf(lines[i]) > 0)) {
+      continue;
+    }
+    // Never reach back past the previous declaration
+    const floor = Math.max(from, (starts[starts.length - 1] ?? from - 1) + 1);
+    let start = i;
+    while (start > floor && LEADING.test(lines[start - 1])) {
+      start--;
+    }
+    starts.push(start);
+  }
+  return starts;
+}
+
+function makeChunk(lines: string[], start: number, end: number): CodeChunk | undefined {
+  // Leave surrounding blank lines out of the chunk
+  while (start < end && lines[start].trim() === '') start++;
+  while (end > start && lines[end - 1].trim() === '') end--;
+  if (start === end) {
+    return undefined;
+  }
+  const text = lines.slice(start, end).join('\n');
+  const declaration = lines.slice(start, end).find(line => DECLARATION.test(line));
+  return {
+    startLine: start + 1,
+    endLine: end,
+    symbol: declaration?.match(SYMBOL)?.[1],
+    text,
+  };
+}
+
+function split(lines: string[], from: number, to: number, nested: boolean): CodeChunk[] {
+  const starts = declarationStarts(lines, from, to, nested).filter(start => start > from);
+  // Keep a short class header together with its first method
+  if (nested && starts.length > 0 && starts[0] - from <= MIN_HEADER_LINES) {
+    starts.shift();
+  }
+  const bounds = [from, ...starts, to];
+  const chunks: CodeChunk[] = [];
+
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const [start, end] = [bounds[i], bounds[i + 1]];
+    if (end - start <= MAX_CHUNK_LINES) {
+      const chunk = makeChunk(lines, start, end);
+      if (chunk) chunks.push(chunk);
+    } else if (!nested) {
+      // A long class or module: try its methods first
+      chunks.push(...split(lines, start, end, true));
+    } else {
+      for (let window = start; window < end; window += MAX_CHUNK_LINES) {
+        const chunk = makeChunk(lines, window, Math.min(end, window + MAX_CHUNK_LINES));
+        if (chunk) chunks.push(chunk);
+      }
+    }
+  }
+  return chunks;
+}
+
+// Split source text into chunks at top-level declarations, splitting long ones further
+export function chunkCode(text: string): CodeChunk[] {
+  const lines = text.split('\n');
+  return split(lines, 0, lines.length, false);
+}
+
+function encodeVector(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+  const bytes = Buffer.from(encoded, 'base64');
+  return new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4);
+}
+
+function cosine(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export class SemanticIndex {
+  private data?: IndexData;
+  // Serializes updates so concurrent searches do not embed the same files twice
+  private updating?: Promise<IndexStats>;
+  private readonly maxFileBytes: number;
+
+  constructor(
+    private workspace: Workspace,
+    private mistralApi: MistralAPI,
+    private options: SemanticIndexOptions
+  ) {
+    this.maxFileBytes = options.maxFileBytes ?? 1_000_000;
+  }
+
+  // Bring the index up to date, embedding only files whose contents changed
+  async update(): Promise<IndexStats> {
+    const previous = this.updating ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(() => this.refresh());
+    this.updating = run;
+    try {
+      return await run;
+    } finally {
+      if (this.updating === run) {
+        this.updating = undefined;
+      }
+    }
+  }
+
+  async search(query: string, options: { limit?: number; pathPrefix?: string; project?: string; owner?: string; scrub?: ScrubSession } = {}): Promise<SearchHit[]> {
+    await this.update();
+    const data = await this.load();
+    const [queryVector] = await this.mistralApi.embed([query], {
+      usage: { tool: 'semantic_search', task: 'query', project: options.project, owner: options.owner },
+      scrub: options.scrub,
+    });
+
+    const hits: SearchHit[] = [];
+    for (const [uri, file] of Object.entries(data.files)) {
+      if (options.pathPrefix && !file.name.startsWith(options.pathPrefix)) {
+        continue;
+      }
+      for (const chunk of file.chunks) {
+        hits.push({
+          path: file.name,
+          uri,
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          symbol: chunk.symbol,
+          score: cosine(queryVector, decodeVector(chunk.vector)),
+          preview: '',
+        });
+      }
+    }
+
+    const top = hits.sort((a, b) => b.score - a.score).slice(0, options.limit ?? 10);
+    // Previews are read now rather than stored, so the index holds no source text
+    for (const hit of top) {
+      const text = await this.workspace.resolveUri(hit.uri)
+        .then(filePath => fs.readFile(filePath, 'utf-8'))
+        .catch(() => '');
+      hit.preview = text.split('\n').slice(hit.startLine - 1, Math.min(hit.endLine, hit.startLine + 4)).join('\n');
+    }
+    return top;
+  }
+
+  private async refresh(): Promise<IndexStats> {
+    const data = await this.load();
+    const stats: IndexStats = { indexed: 0, unchanged: 0, removed: 0, chunks: 0 };
+    const seen = new Set<string>();
+
+    for (const file of await this.workspace.list()) {
+      const stat = await fs.stat(file.path).catch(() => undefined);
+      if (!stat || stat.size > this.maxFileBytes) {
+        continue;
+      }
+      const existing = data.files[file.uri];
+      if (existing && existing.size === stat.size && existing.mtimeMs === stat.mtimeMs) {
+        seen.add(file.uri);
+        stats.unchanged++;
+        continue;
+      }
+
+      const text = await fs.readFile(file.path, 'utf-8');
+      const hash = hashText(text);
+      if (existing?.hash === hash) {
+        existing.size = stat.size;
+        existing.mtimeMs = stat.mtimeMs;
+        seen.add(file.uri);
+        stats.unchanged++;
+        continue;
+      }
+      // Binary files are not worth embedding
+      if (text.includes('\0')) {
+        continue;
+      }
+
+      const chunks = chunkCode(text);
+      let vectors: number[][];
+      try {
+        vectors = await this.mistralApi.embed(
+          chunks.map(chunk => `${file.name}${chunk.symbol ? ` ${chunk.symbol}` : ''}\n${chunk.text}`.slice(0, MAX_CHUNK_CHARS)),
+          { usage: { tool: 'semantic_search', task: 'index' }, scrub: this.options.scrubber?.session() }
+        );
+      } catch (error) {
+        if (error instanceof SensitiveDataError) {
+          log.notice(`Not indexing ${file.name}: it contains sensitive data`, { findings: error.findings });
+          continue;
+        }
+        throw error;
+      }
+      data.files[file.uri] = {
+        name: file.name,
+        hash,
+        size: stat.size,
+        mtimeMs: stat.mtimeMs,
+        chunks: chunks.map((chunk, i) => ({
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          symbol: chunk.symbol,
+          vector: encodeVector(vectors[i]),
+        })),
+      };
+      seen.add(file.uri);
+      stats.indexed++;
+      // Save as we go so an interrupted first run does not start over
+      await this.save();
+    }
+
+    // Files that are gone, or are now skipped (too large, binary or holding a secret), leave the index
+    for (const uri of Object.keys(data.files)) {
+      if (!seen.has(uri)) {
+        delete data.files[uri];
+        stats.removed++;
+      }
+    }
+    if (stats.removed > 0) {
+      await this.save();
+    }
+
+    stats.chunks = Object.values(data.files).reduce((sum, file) => sum + file.chunks.length, 0);
+    return stats;
+  }
+
+  private async load(): Promise<IndexData> {
+    if (this.data) {
+      return this.data;
+    }
+    try {
+      const stored = JSON.parse(await fs.readFile(this.options.file, 'utf-8')) as IndexData;
+      // An index from another format version is rebuilt from scratch
+      this.data = stored.version === INDEX_VERSION ? stored : { version: INDEX_VERSION, files: {} };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.warning("Error reading semantic index, rebuilding it", { error });
+      }
+      this.data = { version: INDEX_VERSION, files: {} };
+    }
+    return this.data;
+  }
+
+  private async save() {
+    await fs.mkdir(path.dirname(this.options.file), { recursive: true });
+    const temp = `${this.options.file}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(this.data), 'utf-8');
+    await fs.rename(temp, this.options.file);
+  }
+}
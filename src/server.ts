@@ -0,0 +1,2048 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ListToolsRequestSchema,
+  CallToolRequestSchema,
+  CallToolRequest,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  SetLevelRequestSchema,
+  LoggingLevel,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { z } from "zod";
+import { Ajv } from 'ajv';
+import { MistralAPI, CompletionResponse, ChatMessage, ToolCall, MISTRAL_MODELS } from './mistral.js';
+import type { StreamProgressHandler } from './stream.js';
+import type { Workspace } from './workspace.js';
+import { Cursor, splitAtCursor } from './fim.js';
+import { createDiff, hashText, applyPatchToFile, PatchFileResult } from './patch.js';
+import { WritePolicy, WriteRefusedError } from './policy.js';
+import { SessionStore, Summarizer, compactSession, sessionMessages } from './sessions.js';
+import { SemanticIndex } from './semantic.js';
+import { PromptLibrary } from './prompts.js';
+import { TestRunnerOptions, runTestCommand, runWithRepair, testCommandFor, testFileName } from './testrun.js';
+import { UsageLedger, USAGE_GROUPS } from './usage.js';
+import { CACHE_MODES } from './cache.js';
+import { CodeValidator, languageOf, rankCandidates } from './candidates.js';
+import { ParsedResponse, parseResponse, codeOf } from './response.js';
+import { runJobs, matchFiles, expandOutputPath } from './batch.js';
+import { RequestAbortedError } from './retry.js';
+import { Redaction, Scrubber, ScrubSession, SensitiveDataError } from './scrub.js';
+import { REVIEW_SCHEMA, numberLines, parseReview, toSarif } from './review.js';
+import fs from 'fs/promises';
+import path from 'path';
+import { createLogger, LogSink, newRequestId, withLogContext } from './logger.js';
+
+const log = createLogger('server');
+
+// Validate tool input schemas
+const CodeCompletionSchema = z.object({
+  code: z.string().optional(),
+  language: z.string().optional(),
+  // A built-in task or a custom prompt template
+  task: z.string(),
+  framework: z.string().optional(),
+  style_guide: z.string().optional(),
+  goal: z.string().optional(),
+  // Checked against the model registry, which knows what each model supports
+  model: z.string().optional(),
+  suffix: z.string().optional(),
+  temperature: z.number().min(0).max(1).optional(),
+  top_p: z.number().min(0).max(1).optional(),
+  max_tokens: z.number().positive().optional(),
+  stop: z.array(z.string()).optional(),
+  outputPath: z.string().optional(),
+  streamToFile: z.boolean().optional(),
+  filePath: z.string().optional(),
+  line: z.number().int().positive().optional(),
+  column: z.number().int().positive().optional(),
+  offset: z.number().int().min(0).optional(),
+  context_tokens: z.number().int().positive().optional(),
+  insert: z.boolean().optional(),
+  output: z.enum(['code', 'diff', 'sarif']).optional(),
+  apply: z.boolean().optional(),
+  dry_run: z.boolean().optional(),
+  run_tests: z.boolean().optional(),
+  repair_rounds: z.number().int().min(0).optional(),
+  project: z.string().optional(),
+  cache: z.enum(CACHE_MODES).optional(),
+  timeout_ms: z.number().int().positive().optional(),
+  candidates: z.number().int().min(1).max(8).optional(),
+}).refine(params => params.code !== undefined || params.filePath !== undefined, {
+  message: "Either code or filePath is required",
+});
+
+const ApplyPatchSchema = z.object({
+  filePath: z.string(),
+  patch: z.string(),
+  base_hash: z.string().optional(),
+  dry_run: z.boolean().optional(),
+});
+
+const SemanticSearchSchema = z.object({
+  query: z.string().min(1),
+  limit: z.number().int().min(1).max(50).optional(),
+  path: z.string().optional(),
+  project: z.string().optional(),
+});
+
+const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const UsageReportSchema = z.object({
+  from: DateSchema.optional(),
+  to: DateSchema.optional(),
+  group_by: z.array(z.enum(USAGE_GROUPS)).optional(),
+  project: z.string().optional(),
+});
+
+const BatchCodeTaskSchema = z.object({
+  task: z.string(),
+  files: z.array(z.string()).min(1),
+  exclude: z.array(z.string()).optional(),
+  output_path: z.string().optional(),
+  language: z.string().optional(),
+  framework: z.string().optional(),
+  style_guide: z.string().optional(),
+  goal: z.string().optional(),
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(1).optional(),
+  top_p: z.number().min(0).max(1).optional(),
+  max_tokens: z.number().int().positive().optional(),
+  concurrency: z.number().int().min(1).max(16).optional(),
+  max_files: z.number().int().min(1).max(1000).optional(),
+  project: z.string().optional(),
+  cache: z.enum(CACHE_MODES).optional(),
+  timeout_ms: z.number().int().positive().optional(),
+});
+
+const ToolCallSchema = z.object({
+  id: z.string().optional(),
+  type: z.literal('function').optional(),
+  function: z.object({
+    name: z.string(),
+    arguments: z.union([z.string(), z.record(z.unknown())]),
+  }),
+});
+
+const ChatSchema = z.object({
+  messages: z.array(z.object({
+    role: z.enum(['system', 'user', 'assistant', 'tool']),
+    // Assistant messages that only call tools have no text
+    content: z.string().default(''),
+    tool_calls: z.array(ToolCallSchema).optional(),
+    tool_call_id: z.string().optional(),
+    name: z.string().optional(),
+  })),
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(1).optional(),
+  top_p: z.number().min(0).max(1).optional(),
+  max_tokens: z.number().positive().optional(),
+  stop: z.array(z.string()).optional(),
+  tools: z.array(z.object({
+    type: z.literal('function').default('function'),
+    function: z.object({
+      name: z.string(),
+      description: z.string().optional(),
+      parameters: z.record(z.unknown()),
+    }),
+  })).optional(),
+  tool_choice: z.union([
+    z.enum(['auto', 'none', 'any', 'required']),
+    z.object({
+      type: z.literal('function'),
+      function: z.object({ name: z.string() }),
+    }),
+  ]).optional(),
+  response_format: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('text') }),
+    z.object({ type: z.literal('json_object') }),
+    z.object({
+      type: z.literal('json_schema'),
+      json_schema: z.object({
+        name: z.string(),
+        description: z.string().optional(),
+        schema: z.record(z.unknown()),
+        strict: z.boolean().optional(),
+      }),
+    }),
+  ]).optional(),
+  session_id: z.string().optional(),
+  project: z.string().optional(),
+  cache: z.enum(CACHE_MODES).optional(),
+  timeout_ms: z.number().int().positive().optional(),
+});
+
+const SessionCreateSchema = z.object({
+  title: z.string().optional(),
+  model: z.string().optional(),
+  system: z.string().optional(),
+});
+
+const SessionForkSchema = z.object({
+  session_id: z.string(),
+  title: z.string().optional(),
+  message_count: z.number().int().min(0).optional(),
+});
+
+const SessionIdSchema = z.object({
+  session_id: z.string(),
+});
+
+// Write each named code block below `directory`, checking every path before anything is written
+async function writeFiles(policy: WritePolicy, directory: string, parsed: ParsedResponse): Promise<string[]> {
+  const files = parsed.blocks.filter(block => block.filename);
+  if (files.length === 0) {
+    throw new Error(`${directory} is a directory, but the answer names no files to write into it`);
+  }
+
+  const targets = files.map(block => {
+    const relative = path.normalize(block.filename!);
+    if (path.isAbsolute(relative) || relative.split(path.sep)[0] === '..') {
+      throw new WriteRefusedError('outside_roots', block.filename!, `Refusing to write ${block.filename}: it is outside ${directory}`);
+    }
+    return path.join(directory, relative);
+  });
+  for (const target of targets) {
+    await policy.check(target);
+  }
+
+  for (const [i, target] of targets.entries()) {
+    await policy.write(target, files[i].code, { tool: "code_completion" });
+  }
+  return targets;
+}
+
+// Format Mistral API response
+function formatResponse(completion: CompletionResponse): string {
+  if (!completion.choices || completion.choices.length === 0) {
+    throw new Error('Invalid completion response');
+  }
+
+  return extractCode(completion.choices[0].message.content);
+}
+
+// Extract code from markdown code blocks if present
+function extractCode(content: string): string {
+  return codeOf(parseResponse(content), content);
+}
+
+// One content block per code block, then the explanation; the structured content keeps each block's language and filename
+function structuredAnswer(parsed: ParsedResponse) {
+  return {
+    content: [
+      ...parsed.blocks.map(block => ({ type: "text", text: block.code })),
+      ...(parsed.explanation ? [{ type: "text", text: parsed.explanation }] : []),
+    ],
+    structuredContent: {
+      explanation: parsed.explanation,
+      blocks: parsed.blocks.map(({ language, filename, complete }) => ({ language: language ?? null, filename: filename ?? null, complete })),
+    } as Record<string, unknown>,
+  };
+}
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+
+function parseToolArguments(call: ToolCall): Record<string, unknown> {
+  if (typeof call.function.arguments !== 'string') {
+    return call.function.arguments;
+  }
+  try {
+    return JSON.parse(call.function.arguments || '{}');
+  } catch {
+    throw new Error(`The model called ${call.function.name} with arguments that are not valid JSON: ${call.function.arguments}`);
+  }
+}
+
+// Tool calls and JSON answers also come back as structured content so clients get typed data
+function chatResult(completion: CompletionResponse, responseFormat?: z.infer<typeof ChatSchema>['response_format']) {
+  const { message, finish_reason } = completion.choices[0];
+
+  if (message.tool_calls?.length) {
+    const structured = {
+      content: message.content,
+      tool_calls: message.tool_calls.map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseToolArguments(call),
+      })),
+      finish_reason,
+    };
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(structured, null, 2),
+        },
+      ],
+      structuredContent: structured,
+    };
+  }
+
+  if (responseFormat && responseFormat.type !== 'text') {
+    let json: unknown;
+    try {
+      json = JSON.parse(message.content);
+    } catch {
+      throw new Error(`The model did not return valid JSON: ${message.content}`);
+    }
+    if (responseFormat.type === 'json_schema') {
+      const validate = ajv.compile(responseFormat.json_schema.schema);
+      if (!validate(json)) {
+        throw new Error(`The model's JSON does not match the ${responseFormat.json_schema.name} schema (${ajv.errorsText(validate.errors)}): ${message.content}`);
+      }
+    }
+    return {
+      content: [
+        {
+          type: "text",
+          text: message.content,
+        },
+      ],
+      structuredContent: { json, finish_reason },
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: message.content,
+      },
+    ],
+  };
+}
+
+// Refused writes and aborted requests are reported as structured JSON so clients can react to the reason
+function errorText(error: unknown): string {
+  if (error instanceof WriteRefusedError || error instanceof RequestAbortedError || error instanceof SensitiveDataError) {
+    return JSON.stringify(error, null, 2);
+  }
+  return `Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`;
+}
+
+// Tell the client which values were sent as placeholders, without the values
+function withRedactions<T extends { content: Array<{ type: string; text: string }>; structuredContent?: Record<string, unknown> }>(
+  result: T,
+  redactions: Redaction[]
+) {
+  return redactions.length === 0
+    ? result
+    : {
+      ...result,
+      content: [...result.content, { type: "text", text: JSON.stringify({ redactions }, null, 2) }],
+      structuredContent: { ...result.structuredContent, redactions },
+    };
+}
+
+// Machine-readable summary of a patch application
+function patchReport(result: PatchFileResult) {
+  return {
+    written: result.written,
+    dry_run: result.dryRun,
+    backup: result.backupPath,
+    hash: result.hash,
+    hunks: result.hunks,
+    failed_hunks: result.hunks.filter(hunk => !hunk.applied).map(hunk => hunk.index),
+  };
+}
+
+// Cursor position for a file-based FIM request
+function cursorFrom(params: { line?: number; column?: number; offset?: number }): Cursor {
+  if (params.offset !== undefined) {
+    return { offset: params.offset };
+  }
+  if (params.line !== undefined) {
+    return { line: params.line, column: params.column ?? 1 };
+  }
+  throw new Error("A fim request with filePath needs a cursor: line/column or offset");
+}
+
+// Forward streamed text to the client as progress notifications when it asked for progress
+function createProgressForwarder(
+  progressToken: string | number | undefined,
+  sendNotification: RequestHandlerExtra<ServerRequest, ServerNotification>['sendNotification']
+): StreamProgressHandler | undefined {
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  let chunks = 0;
+  return async (delta) => {
+    chunks += 1;
+    try {
+      await sendNotification({
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress: chunks,
+          message: delta,
+        },
+      });
+    } catch (error) {
+      // A failed notification must not abort the completion itself
+      log.warning("Error sending progress notification", { error });
+    }
+  };
+}
+
+export interface ServerOptions {
+  // Files exposed as resources and readable through filePath; without a workspace neither is available
+  workspace?: Workspace;
+  // Default token budget for the prompt and suffix of file-based FIM requests
+  fimContextTokens?: number;
+  // Governs every file the server writes; defaults to the workspace roots with backups
+  writePolicy?: WritePolicy;
+  // Storage for chat sessions; without it the session tools are unavailable
+  sessions?: SessionStore;
+  // How old session turns make room once the history nears the context limit
+  sessionCompaction?: 'summarize' | 'trim';
+  // Vector index of the workspace behind semantic_search
+  semanticIndex?: SemanticIndex;
+  // Local test commands for code_completion's run_tests; without them run_tests is unavailable
+  testRunner?: TestRunnerOptions;
+  // Task prompt templates; defaults to the built-in ones
+  prompts?: PromptLibrary;
+  // Usage records behind usage_report and the usage resources; pass the same ledger to the MistralAPI
+  usage?: UsageLedger;
+  // Checks for code_completion candidates; defaults to the built-in parsers
+  validator?: CodeValidator;
+  // Looks for secrets and personal data in everything sent to the API; without it code is sent as given
+  scrubber?: Scrubber;
+  // The client this server instance serves on a shared HTTP server; its chat sessions and usage are its own
+  owner?: string;
+}
+
+// Share of a model's context window a session may fill before older turns are compacted
+const SESSION_CONTEXT_RATIO = 0.8;
+
+// Number of resources returned per resources/list page
+const RESOURCE_PAGE_SIZE = 500;
+
+// Files a batch may cover unless the request raises the limit
+const BATCH_MAX_FILES = 200;
+
+// Files a batch works on at the same time by default; requests still pass the rate limiter
+const BATCH_CONCURRENCY = 4;
+
+// Tasks that rewrite the code they are given, so their answer can be returned as a diff
+const REWRITE_TASKS = ['fix', 'refactor', 'document'];
+
+// Tasks whose answer is not code
+const PROSE_TASKS = ['review', 'explain'];
+
+// Temperature for FIM candidates when none is given; FIM otherwise defaults to 0, where every candidate is the same
+const FIM_CANDIDATE_TEMPERATURE = 0.7;
+
+// Also names the tool in SARIF logs
+const SERVER_INFO = { name: "mcp-codestral", version: "1.0.0" };
+
+// This month's usage; append /YYYY-MM for another month
+const USAGE_REPORT_URI = "usage://report";
+
+// Create the MCP server and register its handlers
+export function createServer(mistralApi: MistralAPI, options: ServerOptions = {}): Server {
+  const { workspace, fimContextTokens = 4000 } = options;
+  const writePolicy = options.writePolicy ?? (workspace ? new WritePolicy({ roots: workspace.roots }) : undefined);
+
+  const requireWritePolicy = (): WritePolicy => {
+    if (!writePolicy) {
+      throw new Error("Writing files requires workspace roots or a write policy to be configured");
+    }
+    return writePolicy;
+  };
+
+  const { owner, sessionCompaction = 'summarize', prompts = new PromptLibrary(), validator = new CodeValidator() } = options;
+  const sessions = owner && options.sessions ? options.sessions.forOwner(owner) : options.sessions;
+  const { models } = mistralApi;
+
+  const requireUsage = (): UsageLedger => {
+    if (!options.usage) {
+      throw new Error("Usage accounting is not configured");
+    }
+    return options.usage;
+  };
+
+  const requireSessions = (): SessionStore => {
+    if (!sessions) {
+      throw new Error("Chat sessions are not configured");
+    }
+    return sessions;
+  };
+
+  // Condense old session turns with the same model the session talks to
+  const summarizer = (model: string, project?: string, signal?: AbortSignal, scrub?: ScrubSession): Summarizer => async (messages, previousSummary) => {
+    const transcript = messages.map(message => `${message.role}: ${message.content}`).join('\n\n');
+    const completion = await mistralApi.chatCompletion([
+      {
+        role: "system",
+        content: "Summarize the conversation below for your own future reference. Keep decisions, requirements, code identifiers and open questions; drop pleasantries. Reply with the summary only.",
+      },
+      {
+        role: "user",
+        content: previousSummary
+          ? `Earlier summary:\n${previousSummary}\n\nConversation to add:\n${transcript}`
+          : transcript,
+      },
+    ], { model, temperature: 0, max_tokens: 1000, usage: { owner, tool: "chat", task: "summarize", project }, signal, scrub });
+    return completion.choices[0].message.content;
+  };
+
+  // Patch writes always keep a backup, whatever the overwrite mode
+  const patchWriter = (tool: string) => async (filePath: string, text: string) =>
+    (await requireWritePolicy().write(filePath, text, { tool, backup: true })).backupPath;
+
+  // Write generated tests, run them and feed failures back to the model until they pass
+  const runGeneratedTests = async (
+    tests: string,
+    context: {
+      code: string;
+      language?: string;
+      framework?: string;
+      style_guide?: string;
+      filePath?: string;
+      outputPath?: string;
+      repairRounds?: number;
+      completionOptions: Parameters<MistralAPI['chatCompletion']>[1];
+    }
+  ) => {
+    const runner = options.testRunner!;
+    const command = testCommandFor(runner, context.language)!;
+    const limit = runner.maxRepairRounds ?? 2;
+    const maxRepairRounds = Math.min(context.repairRounds ?? limit, limit);
+    const fence = context.language ?? '';
+
+    // Without an outputPath the tests go next to the source file (or in the first root), where they can import
+    // it, and are removed afterwards; a test file that is already there is left alone
+    const policy = requireWritePolicy();
+    const scratch = context.outputPath
+      ? undefined
+      : path.join(context.filePath ? path.dirname(context.filePath) : policy.roots[0], testFileName(context.language, context.filePath));
+    if (scratch && await fs.lstat(scratch).catch(() => undefined)) {
+      throw new Error(`run_tests would overwrite ${scratch}; give an outputPath to run the tests from`);
+    }
+    let written = false;
+    try {
+      const result = await runWithRepair(tests, {
+        command,
+        maxRepairRounds,
+        write: async code => {
+          if (scratch && written) {
+            // Each round replaces the scratch file instead of leaving backups of it behind
+            await fs.rm(scratch, { force: true });
+          }
+          const file = (await policy.write(context.outputPath ?? scratch!, code, { tool: "code_completion" })).path;
+          written = true;
+          return file;
+        },
+        run: file => runTestCommand(command, file, { cwd: runner.cwd, timeoutMs: runner.timeoutMs }),
+        repair: async (code, run) => {
+          const messages = [
+            ...prompts.render('test', {
+              code: context.code,
+              language: context.language,
+              framework: context.framework,
+              style_guide: context.style_guide,
+            }),
+            { role: "assistant", content: `\`\`\`${fence}\n${code}\n\`\`\`` },
+            {
+              role: "user",
+              content: `Running the tests with \`${command}\` failed${run.timedOut ? ' (timed out)' : ` with exit code ${run.exitCode}`}:\n\n\`\`\`\n${run.output}\n\`\`\`\n\nFix the tests and reply with the complete corrected test file.`,
+            },
+          ];
+          return formatResponse(await mistralApi.chatCompletion(messages, context.completionOptions));
+        },
+      });
+
+      const report = {
+        passed: result.passed,
+        testPath: context.outputPath,
+        repairs: result.rounds.length - 1,
+        transcript: result.rounds,
+      };
+      return {
+        content: [
+          { type: "text", text: result.code },
+          { type: "text", text: JSON.stringify(report, null, 2) },
+        ],
+        structuredContent: { tests: result.code, ...report },
+      };
+    } finally {
+      if (scratch && written) {
+        await fs.rm(scratch, { force: true });
+      }
+    }
+  };
+
+  const server = new Server(
+    SERVER_INFO,
+    {
+      capabilities: {
+        tools: { listChanged: true },
+        resources: { listChanged: true },
+        prompts: { listChanged: true },
+        logging: {},
+      },
+    }
+  );
+
+  // Records of this client's tool calls go to it as notifications/message, from the level it asked for
+  let clientLevel: LoggingLevel | undefined;
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    clientLevel = request.params.level;
+    return {};
+  });
+  const clientSink: LogSink = {
+    level: () => clientLevel ?? 'warning',
+    send: record => {
+      server.sendLoggingMessage({ level: record.level, logger: record.logger, data: record }).catch(() => {
+        // The client went away; its records are still on stderr
+      });
+    },
+  };
+
+  // Tool Implementation
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: [
+        {
+          name: "code_completion",
+          description: "Complete, fix, review, explain, refactor or document code, or generate tests using Mistral Codestral",
+          inputSchema: {
+            type: "object",
+            properties: {
+              code: {
+                type: "string",
+                description: "The code to process (required unless filePath is given)",
+              },
+              language: {
+                type: "string",
+                description: "Programming language (optional)",
+              },
+              task: {
+                type: "string",
+                enum: prompts.names(),
+                description: "Type of task: 'complete' for code completion, 'fix' for bug fixing, 'test' for test generation, 'fim' for fill-in-the-middle, 'review' for structured review findings, 'explain' for an explanation, 'refactor' for restructured code, 'document' for documentation comments, or a custom task from the prompt templates",
+              },
+              framework: {
+                type: "string",
+                description: "Framework or library the answer should use, e.g. a test framework (optional)",
+              },
+              style_guide: {
+                type: "string",
+                description: "Conventions the answer should follow (optional)",
+              },
+              goal: {
+                type: "string",
+                description: "For 'refactor': what the refactoring should achieve (optional)",
+              },
+              model: {
+                type: "string",
+                enum: [...new Set([...models.names('chat'), ...models.names('fim')])],
+                description: "Model to use (optional, defaults to codestral-latest; the fim task needs a model with FIM support)",
+              },
+              suffix: {
+                type: "string",
+                description: "Code that should come after the completion (for FIM task)",
+              },
+              temperature: {
+                type: "number",
+                minimum: 0,
+                maximum: 1,
+                description: "Sampling temperature (optional, defaults to 0.7)",
+              },
+              top_p: {
+                type: "number",
+                minimum: 0,
+                maximum: 1,
+                description: "Nucleus sampling threshold (optional, defaults to 1)",
+              },
+              max_tokens: {
+                type: "number",
+                minimum: 1,
+                description: "Maximum number of tokens to generate (optional, defaults to 1000)",
+              },
+              stop: {
+                type: "array",
+                items: {
+                  type: "string"
+                },
+                description: "Stop sequences to end generation (optional)",
+              },
+              outputPath: {
+                type: "string",
+                description: "Path to save the generated code, relative to the first workspace root; subject to the server's write policy (optional)",
+              },
+              streamToFile: {
+                type: "boolean",
+                description: "If true, saves result to file and returns success message only (optional)",
+              },
+              filePath: {
+                type: "string",
+                description: "Workspace file to read instead of passing code. For 'fim' the file is split at the cursor (optional)",
+              },
+              line: {
+                type: "number",
+                minimum: 1,
+                description: "1-based cursor line for 'fim' with filePath (optional)",
+              },
+              column: {
+                type: "number",
+                minimum: 1,
+                description: "1-based cursor column for 'fim' with filePath (optional, defaults to 1)",
+              },
+              offset: {
+                type: "number",
+                minimum: 0,
+                description: "0-based UTF-8 byte offset of the cursor, instead of line/column (optional)",
+              },
+              context_tokens: {
+                type: "number",
+                minimum: 1,
+                description: "Token budget for the code around the cursor; the prompt and suffix are trimmed to fit (optional)",
+              },
+              insert: {
+                type: "boolean",
+                description: "If true, inserts the 'fim' completion into filePath at the cursor (optional)",
+              },
+              output: {
+                type: "string",
+                enum: ["code", "diff", "sarif"],
+                description: "For 'fix', 'refactor' and 'document': 'code' returns the rewritten code, 'diff' a unified diff against the original code or filePath. For 'review': 'sarif' returns the findings as a SARIF log (optional, defaults to 'code')",
+              },
+              apply: {
+                type: "boolean",
+                description: "With output 'diff' and filePath: apply the diff to the file, keeping a .bak backup (optional)",
+              },
+              dry_run: {
+                type: "boolean",
+                description: "With apply: only check that every hunk applies, without writing (optional)",
+              },
+              run_tests: {
+                type: "boolean",
+                description: "With task 'test': write the tests (to outputPath, or a temporary file), run the server's configured test command and repair failures (optional)",
+              },
+              repair_rounds: {
+                type: "number",
+                minimum: 0,
+                description: "With run_tests: how many times failing tests are sent back for repair (optional, defaults to the server's limit)",
+              },
+              project: {
+                type: "string",
+                description: "Project or team the usage is charged to in usage reports (optional)",
+              },
+              cache: {
+                type: "string",
+                enum: [...CACHE_MODES],
+                description: "Response cache handling: 'bypass' skips the cache, 'refresh' replaces the cached answer (optional; when the server has a cache, temperature 0 requests use it)",
+              },
+              timeout_ms: {
+                type: "number",
+                minimum: 1,
+                description: "Fail if the API does not respond within this many milliseconds (optional; defaults to the server's timeout)",
+              },
+              candidates: {
+                type: "number",
+                minimum: 1,
+                maximum: 8,
+                description: "Generate this many candidates, check each locally (TypeScript/JavaScript, JSON, YAML or a configured checker) and return the best valid one with a report on the others (optional; several candidates need a temperature above 0, which for FIM then defaults to 0.7)",
+              }
+            },
+            required: ["task"],
+          },
+        },
+        {
+          name: "chat",
+          description: "General-purpose chat completion for reasoning, analysis, planning, and understanding using Mistral's general models",
+          inputSchema: {
+            type: "object",
+            properties: {
+              messages: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    role: {
+                      type: "string",
+                      enum: ["system", "user", "assistant", "tool"],
+                      description: "The role of the message sender"
+                    },
+                    content: {
+                      type: "string",
+                      description: "The content of the message (a tool result for `tool` messages)"
+                    },
+                    tool_calls: {
+                      type: "array",
+                      items: { type: "object" },
+                      description: "Calls made by an assistant message, as returned by an earlier chat call (optional)"
+                    },
+                    tool_call_id: {
+                      type: "string",
+                      description: "For `tool` messages: id of the call this is the result of (optional)"
+                    },
+                    name: {
+                      type: "string",
+                      description: "For `tool` messages: name of the function that was called (optional)"
+                    }
+                  },
+                  required: ["role"]
+                },
+                description: "Array of conversation messages"
+              },
+              model: {
+                type: "string",
+                enum: models.names('chat'),
+                description: "Model to use (optional, defaults to mistral-large-latest)"
+              },
+              temperature: {
+                type: "number",
+                minimum: 0,
+                maximum: 1,
+                description: "Sampling temperature (optional, defaults to 0.7)"
+              },
+              top_p: {
+                type: "number",
+                minimum: 0,
+                maximum: 1,
+                description: "Nucleus sampling threshold (optional, defaults to 1)"
+              },
+              max_tokens: {
+                type: "number",
+                minimum: 1,
+                description: "Maximum number of tokens to generate (optional, defaults to 1000)"
+              },
+              stop: {
+                type: "array",
+                items: {
+                  type: "string"
+                },
+                description: "Stop sequences to end generation (optional)"
+              },
+              tools: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    type: { type: "string", enum: ["function"] },
+                    function: {
+                      type: "object",
+                      properties: {
+                        name: { type: "string" },
+                        description: { type: "string" },
+                        parameters: { type: "object", description: "JSON schema of the arguments" },
+                      },
+                      required: ["name", "parameters"],
+                    },
+                  },
+                  required: ["function"],
+                },
+                description: "Functions the model may call; calls come back as structured content (optional)"
+              },
+              tool_choice: {
+                description: "\"auto\", \"none\", \"any\", \"required\" or {\"type\": \"function\", \"function\": {\"name\": ...}} (optional)"
+              },
+              response_format: {
+                type: "object",
+                properties: {
+                  type: { type: "string", enum: ["text", "json_object", "json_schema"] },
+                  json_schema: {
+                    type: "object",
+                    properties: {
+                      name: { type: "string" },
+                      description: { type: "string" },
+                      schema: { type: "object" },
+                      strict: { type: "boolean" },
+                    },
+                    required: ["name", "schema"],
+                  },
+                },
+                required: ["type"],
+                description: "Ask for JSON (json_object) or JSON matching a schema (json_schema); the parsed JSON comes back as structured content (optional)"
+              },
+              session_id: {
+                type: "string",
+                description: "Continue a server-side session: only send the new messages, the history is kept by the server (optional)"
+              },
+              project: {
+                type: "string",
+                description: "Project or team the usage is charged to in usage reports (optional)"
+              },
+              cache: {
+                type: "string",
+                enum: [...CACHE_MODES],
+                description: "Response cache handling: 'bypass' skips the cache, 'refresh' replaces the cached answer (optional; when the server has a cache, temperature 0 requests use it)"
+              },
+              timeout_ms: {
+                type: "number",
+                minimum: 1,
+                description: "Fail if the API does not respond within this many milliseconds (optional; defaults to the server's timeout)",
+              }
+            },
+            required: ["messages"],
+          },
+        },
+        {
+          name: "session_create",
+          description: "Create a persistent chat session for use with the chat tool's session_id",
+          inputSchema: {
+            type: "object",
+            properties: {
+              title: {
+                type: "string",
+                description: "Human-readable title (optional)",
+              },
+              model: {
+                type: "string",
+                enum: models.names('chat'),
+                description: "Default model for the session (optional, defaults to mistral-large-latest)",
+              },
+              system: {
+                type: "string",
+                description: "System prompt sent with every turn (optional)",
+              },
+            },
+          },
+        },
+        {
+          name: "session_list",
+          description: "List chat sessions, most recently used first",
+          inputSchema: {
+            type: "object",
+            properties: {},
+          },
+        },
+        {
+          name: "session_fork",
+          description: "Copy a chat session so a discussion can branch",
+          inputSchema: {
+            type: "object",
+            properties: {
+              session_id: {
+                type: "string",
+                description: "Session to copy",
+              },
+              title: {
+                type: "string",
+                description: "Title of the new session (optional)",
+              },
+              message_count: {
+                type: "number",
+                minimum: 0,
+                description: "Keep only the first N messages of the history (optional, defaults to all)",
+              },
+            },
+            required: ["session_id"],
+          },
+        },
+        {
+          name: "session_delete",
+          description: "Delete a chat session and its history",
+          inputSchema: {
+            type: "object",
+            properties: {
+              session_id: {
+                type: "string",
+                description: "Session to delete",
+              },
+            },
+            required: ["session_id"],
+          },
+        },
+        {
+          name: "apply_patch",
+          description: "Apply a unified diff (e.g. from code_completion with output 'diff') to a workspace file. Refuses if the file changed since the diff was made, writes nothing unless every hunk applies, and keeps a .bak backup",
+          inputSchema: {
+            type: "object",
+            properties: {
+              filePath: {
+                type: "string",
+                description: "Workspace file to patch",
+              },
+              patch: {
+                type: "string",
+                description: "Unified diff for this file",
+              },
+              base_hash: {
+                type: "string",
+                description: "sha256 of the file the diff was made against, as returned by code_completion (optional)",
+              },
+              dry_run: {
+                type: "boolean",
+                description: "Only report which hunks would apply (optional)",
+              },
+            },
+            required: ["filePath", "patch"],
+          },
+        },
+        {
+          name: "semantic_search",
+          description: "Find workspace code by meaning rather than exact text. Files are chunked by function and class, embedded with codestral-embed and indexed locally; changed files are re-indexed before each search",
+          inputSchema: {
+            type: "object",
+            properties: {
+              query: {
+                type: "string",
+                description: "What to look for, e.g. 'where retries are scheduled'",
+              },
+              limit: {
+                type: "number",
+                minimum: 1,
+                maximum: 50,
+                description: "Number of hits to return (optional, defaults to 10)",
+              },
+              path: {
+                type: "string",
+                description: "Only search files whose workspace-relative path starts with this (optional)",
+              },
+              project: {
+                type: "string",
+                description: "Project or team the usage is charged to in usage reports (optional)",
+              },
+            },
+            required: ["query"],
+          },
+        },
+        {
+          name: "batch_code_task",
+          description: "Run a code task (complete, fix, test or a custom task) over every workspace file matching a set of globs, several files at a time, and return a summary with per-file results, errors and token usage. Reports progress per file and stops starting new files when the request is cancelled",
+          inputSchema: {
+            type: "object",
+            properties: {
+              task: {
+                type: "string",
+                description: "Task to run on each file: 'complete', 'fix', 'test', 'refactor', 'document' or a custom task from the prompt templates ('fim', 'review' and 'explain' are not supported)",
+              },
+              files: {
+                type: "array",
+                items: { type: "string" },
+                description: "Gitignore-style patterns of workspace files to include, e.g. ['src/**/*.ts']",
+              },
+              exclude: {
+                type: "array",
+                items: { type: "string" },
+                description: "Patterns of files to leave out, e.g. ['*.test.ts'] (optional)",
+              },
+              output_path: {
+                type: "string",
+                description: "Where to write each result, with {path}, {dir}, {name}, {stem} and {ext} placeholders for the input file, e.g. 'test/{dir}/{stem}.test{ext}' or '{path}' to rewrite in place (optional; without it the code is returned)",
+              },
+              language: {
+                type: "string",
+                description: "Programming language (optional; defaults to each file's extension)",
+              },
+              framework: {
+                type: "string",
+                description: "Framework or library to use, e.g. the test framework (optional)",
+              },
+              style_guide: {
+                type: "string",
+                description: "Conventions the answers should follow (optional)",
+              },
+              goal: {
+                type: "string",
+                description: "For 'refactor': what the refactoring should achieve (optional)",
+              },
+              model: {
+                type: "string",
+                description: "Model ID or alias from the registry (optional, defaults to codestral-latest)",
+              },
+              temperature: {
+                type: "number",
+                minimum: 0,
+                maximum: 1,
+                description: "Sampling temperature (optional)",
+              },
+              top_p: {
+                type: "number",
+                minimum: 0,
+                maximum: 1,
+                description: "Nucleus sampling (optional)",
+              },
+              max_tokens: {
+                type: "number",
+                description: "Maximum tokens to generate per file (optional)",
+              },
+              concurrency: {
+                type: "number",
+                minimum: 1,
+                maximum: 16,
+                description: `Files processed at the same time (optional, defaults to ${BATCH_CONCURRENCY})`,
+              },
+              max_files: {
+                type: "number",
+                minimum: 1,
+                maximum: 1000,
+                description: `Refuse to start when more files match (optional, defaults to ${BATCH_MAX_FILES})`,
+              },
+              project: {
+                type: "string",
+                description: "Project or team the usage is charged to in usage reports (optional)",
+              },
+              cache: {
+                type: "string",
+                enum: [...CACHE_MODES],
+                description: "Response cache handling: 'bypass' or 'refresh' (optional)",
+              },
+              timeout_ms: {
+                type: "number",
+                minimum: 1,
+                description: "Per-file time limit for the API to respond, in milliseconds (optional)",
+              },
+            },
+            required: ["task", "files"],
+          },
+        },
+        {
+          name: "usage_report",
+          description: "Summarize token usage and estimated cost of the server's API calls, with the configured budgets",
+          inputSchema: {
+            type: "object",
+            properties: {
+              from: {
+                type: "string",
+                description: "First day to include, YYYY-MM-DD in UTC (optional)",
+              },
+              to: {
+                type: "string",
+                description: "Last day to include, YYYY-MM-DD in UTC (optional)",
+              },
+              group_by: {
+                type: "array",
+                items: { type: "string", enum: [...USAGE_GROUPS] },
+                description: "Fields to group by (optional, defaults to day, model and project)",
+              },
+              project: {
+                type: "string",
+                description: "Only include usage charged to this project (optional)",
+              },
+            },
+          },
+        },
+      ],
+    };
+  });
+
+  // Handle tool execution
+  const handleToolCall = async (
+    request: CallToolRequest,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+    scrub?: ScrubSession
+  ) => {
+    const { name, arguments: args } = request.params;
+
+    // Stream the completion only when the client can receive progress notifications
+    const onProgress = createProgressForwarder(request.params._meta?.progressToken, extra.sendNotification);
+    const stream = onProgress !== undefined;
+
+    if (name === "chat") {
+      try {
+        const params = ChatSchema.parse(args);
+
+        const complete = (messages: ChatMessage[], model: string) =>
+          mistralApi.chatCompletion(messages, {
+            model,
+            temperature: params.temperature,
+            top_p: params.top_p,
+            max_tokens: params.max_tokens,
+            stop: params.stop,
+            tools: params.tools,
+            tool_choice: params.tool_choice,
+            response_format: params.response_format,
+            stream,
+            onProgress,
+            usage: { owner, tool: "chat", project: params.project },
+            cache: params.cache,
+            signal: extra.signal,
+            scrub,
+            timeoutMs: params.timeout_ms,
+          });
+
+        if (params.session_id) {
+          // The session supplies the history; only the new messages come from the client
+          return await requireSessions().update(params.session_id, async session => {
+            const model = params.model ?? session.model ?? MISTRAL_MODELS.MISTRAL_LARGE;
+            const { contextLength } = models.require(model, 'chat');
+            const budget = Math.floor(contextLength * SESSION_CONTEXT_RATIO) - (params.max_tokens ?? 1000);
+            const { compacted, summarized } = await compactSession(
+              session,
+              params.messages,
+              budget,
+              sessionCompaction === 'summarize' ? summarizer(model, params.project, extra.signal, scrub) : undefined
+            );
+
+            const completion = await complete([...sessionMessages(session), ...params.messages], model);
+            const { content, tool_calls } = completion.choices[0].message;
+            session.messages.push(...params.messages, { role: "assistant", content, ...(tool_calls ? { tool_calls } : {}) });
+
+            const result = chatResult(completion, params.response_format);
+            if (compacted > 0) {
+              result.content.push({
+                type: "text",
+                text: `[session ${session.id}: ${compacted} older messages were ${summarized ? 'summarized' : 'dropped'} to fit the context window]`,
+              });
+            }
+            return result;
+          });
+        }
+
+        // Use general Mistral API for chat
+        const completion = await complete(params.messages, params.model || MISTRAL_MODELS.MISTRAL_LARGE);
+
+        // Return the response content directly without code extraction
+        return chatResult(completion, params.response_format);
+      } catch (error) {
+        log.error("Error processing chat request", { error });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorText(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+
+    if (name === "code_completion") {
+      try {
+        const params = CodeCompletionSchema.parse(args);
+
+        if (!prompts.names().includes(params.task)) {
+          throw new Error(`Unknown task: ${params.task}`);
+        }
+        // Fail before any work when the model cannot do the task
+        models.require(params.model ?? MISTRAL_MODELS.CODESTRAL, params.task === 'fim' ? 'fim' : 'chat', `the ${params.task} task`);
+
+        let code = params.code ?? '';
+        let suffix = params.suffix;
+        // File contents and cursor index when the request points at a file
+        let source: { path: string; text: string; index?: number } | undefined;
+
+        if (params.filePath) {
+          if (!workspace) {
+            throw new Error("filePath requires workspace roots to be configured");
+          }
+          const filePath = await workspace.resolve(params.filePath);
+          const text = await fs.readFile(filePath, 'utf-8');
+          source = { path: filePath, text };
+
+          if (params.task === 'fim') {
+            const context = splitAtCursor(text, cursorFrom(params), params.context_tokens ?? fimContextTokens);
+            code = context.prompt;
+            suffix = context.suffix;
+            source.index = context.index;
+          } else {
+            code = text;
+          }
+        }
+
+        if (params.insert && source?.index === undefined) {
+          throw new Error("insert is only supported for the 'fim' task with filePath");
+        }
+        if (params.output === 'diff' && !REWRITE_TASKS.includes(params.task)) {
+          throw new Error("output 'diff' is only supported for the 'fix', 'refactor' and 'document' tasks");
+        }
+        if (params.output === 'sarif' && params.task !== 'review') {
+          throw new Error("output 'sarif' is only supported for the 'review' task");
+        }
+        if (params.candidates && PROSE_TASKS.includes(params.task)) {
+          throw new Error(`candidates is not supported for the '${params.task}' task; its answer is not code`);
+        }
+        if (params.candidates && params.candidates > 1 && params.temperature === 0) {
+          throw new Error("candidates needs a temperature above 0; at 0 every candidate is the same");
+        }
+        if (params.apply && (params.output !== 'diff' || !source)) {
+          throw new Error("apply requires output 'diff' and filePath");
+        }
+        if (params.run_tests) {
+          if (params.task !== 'test') {
+            throw new Error("run_tests is only supported for the 'test' task");
+          }
+          if (!options.testRunner || !testCommandFor(options.testRunner, params.language)) {
+            throw new Error(`No test command is configured${params.language ? ` for ${params.language}` : ''}`);
+          }
+          // The tests are written through the write policy, also when they are only a scratch file
+          requireWritePolicy();
+        }
+
+        let completion: CompletionResponse;
+
+        if (params.task === 'fim') {
+          const fimOptions = {
+            model: params.model,
+            suffix,
+            temperature: params.temperature ?? (params.candidates && params.candidates > 1 ? FIM_CANDIDATE_TEMPERATURE : undefined),
+            top_p: params.top_p,
+            max_tokens: params.max_tokens,
+            stop: params.stop,
+            stream,
+            onProgress,
+            usage: { owner, tool: "code_completion", task: params.task, project: params.project },
+            cache: params.cache,
+            signal: extra.signal,
+            scrub,
+            timeoutMs: params.timeout_ms,
+          };
+          // Use FIM endpoint for fill-in-the-middle task
+          completion = await mistralApi.fimCompletion(code, fimOptions);
+          // The FIM endpoint answers with one choice, so further candidates take further requests, past the cache
+          // so they are not the first answer again
+          for (let index = 1; index < (params.candidates ?? 1); index++) {
+            const next = await mistralApi.fimCompletion(code, { ...fimOptions, cache: 'bypass' });
+            completion.choices.push({ ...next.choices[0], index });
+          }
+        } else {
+          // Get formatted messages for other tasks
+          const messages = prompts.render(params.task, {
+            code,
+            language: params.language,
+            suffix,
+            framework: params.framework,
+            style_guide: params.style_guide,
+            goal: params.goal,
+            numbered_code: numberLines(code),
+            file: params.filePath,
+          });
+
+          // Make API call to Mistral
+          completion = await mistralApi.chatCompletion(messages, {
+            model: params.model,
+            temperature: params.temperature,
+            top_p: params.top_p,
+            max_tokens: params.max_tokens,
+            stop: params.stop,
+            n: params.candidates && params.candidates > 1 ? params.candidates : undefined,
+            response_format: params.task === 'review'
+              ? { type: 'json_schema', json_schema: { name: 'review', schema: REVIEW_SCHEMA } }
+              : undefined,
+            stream,
+            onProgress,
+            usage: { owner, tool: "code_completion", task: params.task, project: params.project },
+            cache: params.cache,
+            signal: extra.signal,
+            scrub,
+            timeoutMs: params.timeout_ms,
+          });
+        }
+
+        // The answer that is used, with its explanation and code blocks
+        let answer: string;
+        let candidateReport: Record<string, unknown> | undefined;
+        if (params.candidates) {
+          // FIM candidates are only a fragment, so they are checked in place
+          const inContext = (candidate: string) => source?.index !== undefined
+            ? source.text.slice(0, source.index) + candidate + source.text.slice(source.index)
+            : code + candidate + (suffix ?? '');
+          const language = languageOf(params.language, params.filePath);
+          const ranked = await rankCandidates(
+            completion.choices.map(choice => {
+              const candidate = extractCode(choice.message.content);
+              return {
+                index: choice.index,
+                code: candidate,
+                finishReason: choice.finish_reason,
+                checkText: params.task === 'fim' ? inContext(candidate) : undefined,
+              };
+            }),
+            text => validator.check(text, language)
+          );
+          candidateReport = {
+            chosen: ranked.accepted[0]?.index ?? null,
+            accepted: ranked.accepted.map(candidate => ({
+              index: candidate.index,
+              checker: candidate.check?.checker ?? null,
+              votes: candidate.votes,
+              finish_reason: candidate.finishReason,
+            })),
+            rejected: ranked.rejected.map(candidate => ({
+              index: candidate.index,
+              reason: candidate.reason,
+              code: candidate.code,
+            })),
+          };
+          // Nothing is written when every candidate is broken
+          if (ranked.accepted.length === 0) {
+            return {
+              content: [
+                { type: "text", text: `Error: None of the ${completion.choices.length} candidates passed the checks` },
+                { type: "text", text: JSON.stringify({ candidates: candidateReport }, null, 2) },
+              ],
+              structuredContent: { candidates: candidateReport },
+              isError: true,
+            };
+          }
+          answer = completion.choices.find(choice => choice.index === ranked.accepted[0].index)!.message.content;
+        } else {
+          if (!completion.choices || completion.choices.length === 0) {
+            throw new Error('Invalid completion response');
+          }
+          answer = completion.choices[0].message.content;
+        }
+
+        // Findings instead of code, checked against the schema; 'sarif' turns them into a log for code scanning tools
+        if (params.task === 'review') {
+          const findings = parseReview(answer, params.filePath ?? 'code');
+          const sarif = params.output === 'sarif' ? toSarif(findings, SERVER_INFO) : undefined;
+          const report = JSON.stringify(sarif ?? { findings }, null, 2);
+          if (params.outputPath) {
+            await requireWritePolicy().write(params.outputPath, report, { tool: "code_completion" });
+          }
+          return {
+            content: [{
+              type: "text",
+              text: params.outputPath && params.streamToFile
+                ? `Successfully saved ${findings.length} finding${findings.length === 1 ? '' : 's'} to ${params.outputPath}`
+                : report,
+            }],
+            structuredContent: sarif ? { findings, sarif } : { findings },
+          };
+        }
+
+        // The explanation is the whole answer, code snippets included
+        if (params.task === 'explain') {
+          if (params.outputPath) {
+            await requireWritePolicy().write(params.outputPath, answer, { tool: "code_completion" });
+          }
+          return {
+            content: [{ type: "text", text: params.outputPath && params.streamToFile ? `Successfully saved to ${params.outputPath}` : answer }],
+            structuredContent: { explanation: answer },
+          };
+        }
+
+        const parsed = parseResponse(answer);
+        const formattedResponse = codeOf(parsed, answer);
+
+        // The candidate report goes along with whatever the request returns
+        const withCandidates = <T extends { content: Array<{ type: string; text: string }>; structuredContent?: Record<string, unknown> }>(result: T) =>
+          candidateReport
+            ? {
+              ...result,
+              content: [...result.content, { type: "text", text: JSON.stringify({ candidates: candidateReport }, null, 2) }],
+              structuredContent: { ...result.structuredContent, candidates: candidateReport },
+            }
+            : result;
+
+        if (params.run_tests) {
+          return withCandidates(await runGeneratedTests(formattedResponse, {
+            code,
+            language: params.language,
+            framework: params.framework,
+            style_guide: params.style_guide,
+            filePath: source?.path,
+            outputPath: params.outputPath,
+            repairRounds: params.repair_rounds,
+            completionOptions: {
+              model: params.model,
+              temperature: params.temperature,
+              top_p: params.top_p,
+              max_tokens: params.max_tokens,
+              stop: params.stop,
+              stream,
+              onProgress,
+              usage: { owner, tool: "code_completion", task: "test_repair", project: params.project },
+              cache: params.cache,
+              signal: extra.signal,
+              scrub,
+              timeoutMs: params.timeout_ms,
+            },
+          }));
+        }
+
+        // Return a diff against the original instead of the rewritten code
+        if (params.output === 'diff') {
+          const original = source?.text ?? code;
+          // Code extraction trims the result; keep the original's final newline so it does not show up as a change
+          const updated = original.endsWith('\n') && !formattedResponse.endsWith('\n')
+            ? `${formattedResponse}\n`
+            : formattedResponse;
+          const diff = createDiff(params.filePath ?? 'code', original, updated);
+          const baseHash = hashText(original);
+
+          if (!params.apply || !source) {
+            return withCandidates({
+              content: [
+                { type: "text", text: diff },
+                { type: "text", text: JSON.stringify({ base_hash: baseHash }, null, 2) },
+              ],
+            });
+          }
+
+          const result = await applyPatchToFile(source.path, diff, {
+            expectedHash: baseHash,
+            dryRun: params.dry_run,
+            write: patchWriter("code_completion"),
+          });
+          return withCandidates({
+            content: [
+              { type: "text", text: diff },
+              { type: "text", text: JSON.stringify({ base_hash: baseHash, ...patchReport(result) }, null, 2) },
+            ],
+            isError: !result.written && !result.dryRun,
+          });
+        }
+
+        // Insert the completion at the cursor, unless the file changed while we waited
+        if (params.insert && source?.index !== undefined) {
+          const current = await fs.readFile(source.path, 'utf-8');
+          if (current !== source.text) {
+            throw new Error(`${params.filePath} changed while the completion was generated; nothing was inserted`);
+          }
+          const updated = source.text.slice(0, source.index) + formattedResponse + source.text.slice(source.index);
+          await requireWritePolicy().write(source.path, updated, { tool: "code_completion" });
+
+          if (params.streamToFile) {
+            return withCandidates({
+              content: [
+                {
+                  type: "text",
+                  text: `Successfully inserted completion into ${params.filePath}`,
+                },
+              ],
+            });
+          }
+        }
+
+        // Handle file operations and response
+        if (params.outputPath) {
+          try {
+            const policy = requireWritePolicy();
+            const directory = params.outputPath.endsWith('/')
+              || (await fs.stat(path.resolve(policy.roots[0], params.outputPath)).catch(() => undefined))?.isDirectory();
+            if (directory) {
+              const saved = await writeFiles(policy, params.outputPath, parsed);
+              const message = `Successfully saved ${saved.length} file${saved.length === 1 ? '' : 's'} to ${params.outputPath}: ${saved.join(', ')}`;
+              const result = structuredAnswer(parsed);
+              return withCandidates({
+                content: params.streamToFile ? [{ type: "text", text: message }] : [...result.content, { type: "text", text: message }],
+                structuredContent: { ...result.structuredContent, saved },
+              });
+            }
+
+            await policy.write(params.outputPath, formattedResponse, { tool: "code_completion" });
+
+            // If streamToFile is true, return success message only
+            if (params.streamToFile) {
+              return withCandidates({
+                content: [
+                  {
+                    type: "text",
+                    text: `Successfully saved to ${params.outputPath}`,
+                  },
+                ],
+              });
+            }
+          } catch (error) {
+            log.error("Error saving to file", { error });
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: error instanceof WriteRefusedError
+                    ? errorText(error)
+                    : `Error saving to file: ${error instanceof Error ? error.message : 'Unknown error occurred'}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+        }
+
+        // Return the formatted response if not streaming to file
+        if (parsed.blocks.length > 0) {
+          return withCandidates(structuredAnswer(parsed));
+        }
+        return withCandidates({
+          content: [
+            {
+              type: "text",
+              text: formattedResponse,
+            },
+          ],
+        });
+      } catch (error) {
+        log.error("Error processing code completion request", { error });
+
+        // Return a more user-friendly error message
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorText(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+
+    if (name.startsWith("session_")) {
+      try {
+        const store = requireSessions();
+        let result: unknown;
+
+        switch (name) {
+          case "session_create": {
+            const params = SessionCreateSchema.parse(args ?? {});
+            if (params.model) {
+              models.require(params.model, 'chat', 'chat sessions');
+            }
+            result = await store.create(params);
+            break;
+          }
+          case "session_list":
+            result = await store.list();
+            break;
+          case "session_fork": {
+            const params = SessionForkSchema.parse(args);
+            result = await store.fork(params.session_id, { title: params.title, messageCount: params.message_count });
+            break;
+          }
+          case "session_delete": {
+            const params = SessionIdSchema.parse(args);
+            await store.delete(params.session_id);
+            result = { deleted: params.session_id };
+            break;
+          }
+          default:
+            throw new Error(`Unknown tool: ${name}`);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        log.error("Error processing session request", { error });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorText(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+
+    if (name === "apply_patch") {
+      try {
+        const params = ApplyPatchSchema.parse(args);
+        if (!workspace) {
+          throw new Error("apply_patch requires workspace roots to be configured");
+        }
+
+        const filePath = await workspace.resolve(params.filePath);
+        const result = await applyPatchToFile(filePath, params.patch, {
+          expectedHash: params.base_hash,
+          dryRun: params.dry_run,
+          write: patchWriter("apply_patch"),
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(patchReport(result), null, 2),
+            },
+          ],
+          // Hunks that do not apply leave the file untouched, which the caller needs to notice
+          isError: !result.written && !result.dryRun,
+        };
+      } catch (error) {
+        log.error("Error applying patch", { error });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorText(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+
+    if (name === "semantic_search") {
+      try {
+        const params = SemanticSearchSchema.parse(args);
+        if (!options.semanticIndex) {
+          throw new Error("semantic_search requires workspace roots and a semantic index to be configured");
+        }
+
+        const hits = await options.semanticIndex.search(params.query, {
+          limit: params.limit,
+          pathPrefix: params.path,
+          project: params.project,
+          owner,
+          scrub,
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ hits }, null, 2),
+            },
+          ],
+          structuredContent: { hits },
+        };
+      } catch (error) {
+        log.error("Error processing semantic search", { error });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorText(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+
+    if (name === "batch_code_task") {
+      try {
+        const params = BatchCodeTaskSchema.parse(args);
+        if (!workspace) {
+          throw new Error("batch_code_task requires workspace roots to be configured");
+        }
+        if (params.task === 'fim') {
+          throw new Error("batch_code_task does not support the 'fim' task; it needs a cursor in every file");
+        }
+        if (PROSE_TASKS.includes(params.task)) {
+          throw new Error(`batch_code_task does not support the '${params.task}' task; its answer is not code`);
+        }
+        if (!prompts.names().includes(params.task)) {
+          throw new Error(`Unknown task: ${params.task}`);
+        }
+        const model = params.model ?? MISTRAL_MODELS.CODESTRAL;
+        models.require(model, 'chat', `the ${params.task} task`);
+        const policy = params.output_path ? requireWritePolicy() : undefined;
+
+        const files = matchFiles(await workspace.list(), params.files, params.exclude);
+        const maxFiles = params.max_files ?? BATCH_MAX_FILES;
+        if (files.length === 0) {
+          throw new Error(`No workspace files match ${params.files.join(', ')}`);
+        }
+        if (files.length > maxFiles) {
+          throw new Error(`${files.length} files match, more than the limit of ${maxFiles}; narrow the patterns or raise max_files`);
+        }
+
+        const progressToken = request.params._meta?.progressToken;
+        const results = await runJobs(files, async file => {
+          const text = await fs.readFile(file.path, 'utf-8');
+          const messages = prompts.render(params.task, {
+            code: text,
+            language: params.language ?? languageOf(undefined, file.name),
+            framework: params.framework,
+            style_guide: params.style_guide,
+            goal: params.goal,
+          });
+          const completion = await mistralApi.chatCompletion(messages, {
+            model,
+            temperature: params.temperature,
+            top_p: params.top_p,
+            max_tokens: params.max_tokens,
+            usage: { owner, tool: "batch_code_task", task: params.task, project: params.project },
+            cache: params.cache,
+            signal: extra.signal,
+            scrub,
+            timeoutMs: params.timeout_ms,
+          });
+          const code = extractCode(completion.choices[0].message.content);
+          const output = params.output_path ? expandOutputPath(params.output_path, file.name) : undefined;
+          if (output) {
+            await policy!.write(output, code, { tool: "batch_code_task" });
+          }
+          return { usage: completion.usage, finishReason: completion.choices[0].finish_reason, output, code: output ? undefined : code };
+        }, {
+          concurrency: params.concurrency ?? BATCH_CONCURRENCY,
+          signal: extra.signal,
+          onSettled: async (result, index, settled) => {
+            if (progressToken === undefined) {
+              return;
+            }
+            await extra.sendNotification({
+              method: "notifications/progress",
+              params: {
+                progressToken,
+                progress: settled,
+                total: files.length,
+                message: `${files[index].name}: ${result.status === 'ok' ? 'done' : result.error}`,
+              },
+            });
+          },
+        });
+
+        const rows = results.map((result, i) => ({
+          file: files[i].name,
+          status: result.status,
+          prompt_tokens: result.value?.usage.prompt_tokens ?? 0,
+          completion_tokens: result.value?.usage.completion_tokens ?? 0,
+          duration_ms: result.durationMs,
+          ...(result.value?.finishReason === 'length' ? { truncated: true } : {}),
+          ...(result.value?.output ? { output: result.value.output } : {}),
+          ...(result.value?.code !== undefined ? { code: result.value.code } : {}),
+          ...(result.error ? { error: result.error } : {}),
+        }));
+        const count = (status: string) => rows.filter(row => row.status === status).length;
+        const summary = {
+          task: params.task,
+          files: rows.length,
+          succeeded: count('ok'),
+          failed: count('error'),
+          cancelled: count('cancelled'),
+          prompt_tokens: rows.reduce((sum, row) => sum + row.prompt_tokens, 0),
+          completion_tokens: rows.reduce((sum, row) => sum + row.completion_tokens, 0),
+        };
+
+        const table = [
+          "| File | Status | Tokens (in/out) | Result |",
+          "|------|--------|-----------------|--------|",
+          ...rows.map(row => `| ${row.file} | ${row.status} | ${row.prompt_tokens}/${row.completion_tokens} | ${(row.error ?? row.output ?? '').replace(/\|/g, '\\|').replace(/\n/g, ' ')} |`),
+          "",
+          `${summary.succeeded} succeeded, ${summary.failed} failed, ${summary.cancelled} cancelled; ${summary.prompt_tokens} prompt and ${summary.completion_tokens} completion tokens`,
+        ].join('\n');
+
+        return {
+          content: [{ type: "text", text: table }],
+          structuredContent: { summary, results: rows },
+          isError: summary.succeeded === 0,
+        };
+      } catch (error) {
+        log.error("Error processing batch code task", { error });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorText(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+
+    if (name === "usage_report") {
+      try {
+        const params = UsageReportSchema.parse(args ?? {});
+        const report = await requireUsage().report({
+          from: params.from,
+          to: params.to,
+          groupBy: params.group_by,
+          project: params.project,
+          owner,
+        });
+        // Cache hits cost nothing and are not in the records, so their savings are reported alongside
+        const result = mistralApi.cache ? { ...report, cache: await mistralApi.cache.stats() } : report;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          structuredContent: { ...result },
+        };
+      } catch (error) {
+        log.error("Error building usage report", { error });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: errorText(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+
+    throw new Error(`Unknown tool: ${name}`);
+  };
+
+  // Every record logged while a tool call runs, including those of its API calls, carries the call's request ID
+  server.setRequestHandler(CallToolRequestSchema, (request, extra) =>
+    withLogContext({ requestId: newRequestId(), tool: request.params.name, sink: clientSink }, async () => {
+      const started = Date.now();
+      log.info("Tool call", { mcp_request_id: extra.requestId });
+      let isError = true;
+      try {
+        const scrub = options.scrubber?.session();
+        const result = await handleToolCall(request, extra, scrub);
+        isError = 'isError' in result && result.isError === true;
+        if (scrub && scrub.redactions.length > 0) {
+          log.notice("Sent sensitive values as placeholders", { rules: [...new Set(scrub.redactions.map(redaction => redaction.rule))] });
+        }
+        return withRedactions(result, scrub?.redactions ?? []);
+      } finally {
+        log.info("Tool call finished", { duration_ms: Date.now() - started, is_error: isError });
+      }
+    })
+  );
+
+  // Workspace files as resources
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    const files = workspace ? await workspace.list() : [];
+    const offset = Number(request.params?.cursor ?? 0);
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error(`Invalid cursor: ${request.params?.cursor}`);
+    }
+
+    const page = files.slice(offset, offset + RESOURCE_PAGE_SIZE);
+    const next = offset + RESOURCE_PAGE_SIZE;
+    // The usage report leads the first page
+    const reports = options.usage && offset === 0
+      ? [{ uri: USAGE_REPORT_URI, name: "Usage this month", mimeType: "application/json" }]
+      : [];
+
+    return {
+      resources: [
+        ...reports,
+        ...page.map(file => ({
+          uri: file.uri,
+          name: file.name,
+          mimeType: file.mimeType,
+        })),
+      ],
+      nextCursor: next < files.length ? String(next) : undefined,
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: [
+        {
+          uriTemplate: "file:///{path}",
+          name: "Workspace file",
+          description: "Any file inside the workspace roots. Large files are paged; append ?page=N to read further pages",
+        },
+        ...(options.usage ? [{
+          uriTemplate: `${USAGE_REPORT_URI}/{month}`,
+          name: "Monthly usage",
+          description: "Token usage and estimated cost for a month (YYYY-MM) by day, model and project",
+          mimeType: "application/json",
+        }] : []),
+      ],
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    if (request.params.uri.startsWith(USAGE_REPORT_URI)) {
+      const month = request.params.uri.slice(USAGE_REPORT_URI.length).replace(/^\//, '') || new Date().toISOString().slice(0, 7);
+      if (!/^\d{4}-\d{2}$/.test(month)) {
+        throw new Error(`Invalid month in ${request.params.uri}; use YYYY-MM`);
+      }
+      const report = await requireUsage().report({ from: `${month}-01`, to: `${month}-31`, owner });
+      return {
+        contents: [
+          {
+            uri: request.params.uri,
+            mimeType: "application/json",
+            text: JSON.stringify(report, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (!workspace) {
+      throw new Error("No workspace roots are configured");
+    }
+
+    const page = await workspace.read(request.params.uri);
+    const nextPage = page.page < page.totalPages
+      ? `${page.uri}?page=${page.page + 1}`
+      : undefined;
+
+    return {
+      contents: [
+        {
+          uri: page.uri,
+          mimeType: page.mimeType,
+          text: page.text,
+          _meta: {
+            page: page.page,
+            totalPages: page.totalPages,
+            nextPage,
+          },
+        },
+      ],
+    };
+  });
+
+  // Task prompts; system instructions go first since MCP prompts only have user and assistant messages
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: prompts.list().map(template => ({
+        name: template.name,
+        description: template.description,
+        arguments: template.arguments,
+      })),
+    };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const template = prompts.get(request.params.name);
+    const args = request.params.arguments ?? {};
+    // Like code_completion, number the lines of the code for the templates that use them
+    const [system, user] = prompts.render(template.name, { numbered_code: args.code !== undefined ? numberLines(args.code) : undefined, ...args });
+
+    return {
+      description: template.description,
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: `${system.content}\n\n${user.content}`,
+          },
+        },
+      ],
+    };
+  });
+
+  // Tell clients when files are added or removed, and when prompt templates change
+  const stopWatching: Array<() => void> = [];
+  server.oninitialized = () => {
+    if (workspace) {
+      stopWatching.push(workspace.watch(() => {
+        server.sendResourceListChanged().catch(error => {
+          log.warning("Error sending resource list change", { error });
+        });
+      }));
+    }
+    // Custom tasks also show up in code_completion's task list
+    stopWatching.push(prompts.watch(() => {
+      server.sendPromptListChanged().catch(error => {
+        log.warning("Error sending prompt list change", { error });
+      });
+      server.sendToolListChanged().catch(error => {
+        log.warning("Error sending tool list change", { error });
+      });
+    }));
+  };
+  server.onclose = () => {
+    for (const stop of stopWatching.splice(0)) {
+      stop();
+    }
+  };
+
+  return server;
+}
@@ -0,0 +1,221 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { estimateTokens } from './ratelimit.js';
+import type { ChatMessage } from './mistral.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('sessions');
+
+// Server-side chat sessions, stored as one JSON file per session
+
+export interface Session {
+  id: string;
+  title?: string;
+  model?: string;
+  parentId?: string;
+  createdAt: string;
+  updatedAt: string;
+  // System prompt kept at the top of every request
+  system?: string;
+  // Summary of turns that were compacted away
+  summary?: string;
+  messages: ChatMessage[];
+}
+
+export interface SessionSummary {
+  id: string;
+  title?: string;
+  model?: string;
+  parentId?: string;
+  createdAt: string;
+  updatedAt: string;
+  turns: number;
+}
+
+// Turns the summarizer receives and returns the summary text
+export type Summarizer = (messages: ChatMessage[], previousSummary?: string) => Promise<string>;
+
+const SESSION_ID = /^[a-zA-Z0-9_-]{1,64}$/;
+
+export class SessionStore {
+  // Serializes updates per session so concurrent calls do not lose turns; shared with the owners' stores
+  private locks: Map<string, Promise<unknown>>;
+
+  constructor(private dir: string, locks?: Map<string, Promise<unknown>>) {
+    this.locks = locks ?? new Map();
+  }
+
+  // The sessions of one client of a shared server, kept apart from everyone else's
+  forOwner(owner: string): SessionStore {
+    if (!SESSION_ID.test(owner)) {
+      throw new Error(`Invalid session owner: ${owner}`);
+    }
+    return new SessionStore(path.join(this.dir, 'owners', owner), this.locks);
+  }
+
+  private file(id: string) {
+    if (!SESSION_ID.test(id)) {
+      throw new Error(`Invalid session id: ${id}`);
+    }
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  async create(options: { title?: string; model?: string; system?: string } = {}): Promise<Session> {
+    const now = new Date().toISOString();
+    const session: Session = {
+      id: crypto.randomUUID(),
+      title: options.title,
+      model: options.model,
+      system: options.system,
+      createdAt: now,
+      updatedAt: now,
+      messages: [],
+    };
+    await this.save(session);
+    return session;
+  }
+
+  async get(id: string): Promise<Session> {
+    try {
+      return JSON.parse(await fs.readFile(this.file(id), 'utf-8')) as Session;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`Session not found: ${id}`);
+      }
+      throw error;
+    }
+  }
+
+  async list(): Promise<SessionSummary[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const sessions = await Promise.all(
+      names
+        .filter(name => name.endsWith('.json'))
+        .map(name => this.get(path.basename(name, '.json')).catch(() => undefined))
+    );
+
+    return sessions
+      .filter((session): session is Session => session !== undefined)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map(({ id, title, model, parentId, createdAt, updatedAt, messages }) => ({
+        id, title, model, parentId, createdAt, updatedAt, turns: messages.length,
+      }));
+  }
+
+  // Copy a session, optionally keeping only its first `messageCount` messages
+  async fork(id: string, options: { title?: string; messageCount?: number } = {}): Promise<Session> {
+    const source = await this.get(id);
+    const now = new Date().toISOString();
+    const fork: Session = {
+      ...source,
+      id: crypto.randomUUID(),
+      title: options.title ?? (source.title ? `${source.title} (fork)` : undefined),
+      parentId: source.id,
+      createdAt: now,
+      updatedAt: now,
+      messages: source.messages.slice(0, options.messageCount ?? source.messages.length),
+    };
+    await this.save(fork);
+    return fork;
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await fs.unlink(this.file(id));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`Session not found: ${id}`);
+      }
+      throw error;
+    }
+  }
+
+  // Load, change and save a session while holding its lock
+  async update<T>(id: string, fn: (session: Session) => Promise<T>): Promise<T> {
+    const previous = this.locks.get(id) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(async () => {
+      const session = await this.get(id);
+      const result = await fn(session);
+      session.updatedAt = new Date().toISOString();
+      await this.save(session);
+      return result;
+    });
+    this.locks.set(id, run);
+    try {
+      return await run;
+    } finally {
+      if (this.locks.get(id) === run) {
+        this.locks.delete(id);
+      }
+    }
+  }
+
+  // Write to a temporary file first so a crash never leaves half a session behind
+  private async save(session: Session) {
+    await fs.mkdir(this.dir, { recursive: true });
+    const target = this.file(session.id);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(session, null, 2), 'utf-8');
+    await fs.rename(temp, target);
+  }
+}
+
+// Messages sent to the model for a session: system prompt, summary of older turns, then the history
+export function sessionMessages(session: Session): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  if (session.system) {
+    messages.push({ role: 'system', content: session.system });
+  }
+  if (session.summary) {
+    messages.push({ role: 'system', content: `Summary of the earlier conversation:\n${session.summary}` });
+  }
+  return [...messages, ...session.messages];
+}
+
+// Fold the oldest turns into the summary until the request fits the token budget. Without a
+// summarizer (or if it fails) the oldest turns are simply dropped.
+export async function compactSession(
+  session: Session,
+  pending: ChatMessage[],
+  budget: number,
+  summarize?: Summarizer
+): Promise<{ compacted: number; summarized: boolean }> {
+  const size = () => estimateTokens({ messages: [...sessionMessages(session), ...pending] });
+  let compacted = 0;
+  let summarized = false;
+
+  while (size() > budget && session.messages.length > 0) {
+    // Drop half of the history at a time, but always whole turns (a user message with the
+    // assistant replies and tool results that follow it) where possible
+    let count = Math.max(1, Math.floor(session.messages.length / 2));
+    while (count < session.messages.length && session.messages[count].role !== 'user') {
+      count += 1;
+    }
+    const oldest = session.messages.slice(0, count);
+
+    if (summarize) {
+      try {
+        session.summary = await summarize(oldest, session.summary);
+        summarized = true;
+      } catch (error) {
+        log.warning("Error summarizing session history, dropping old turns instead", { error });
+        summarize = undefined;
+      }
+    }
+
+    session.messages = session.messages.slice(count);
+    compacted += count;
+  }
+
+  return { compacted, summarized };
+}
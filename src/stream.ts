@@ -0,0 +1,154 @@
+import { z } from 'zod';
+import type { Readable } from 'stream';
+import type { CompletionResponse, ToolCall } from './mistral.js';
+
+// Streamed chunk schema (one per server-sent event)
+const CompletionChunkSchema = z.object({
+  id: z.string(),
+  object: z.string().optional(),
+  created: z.number(),
+  model: z.string(),
+  choices: z.array(z.object({
+    index: z.number(),
+    delta: z.object({
+      role: z.string().optional(),
+      content: z.string().nullable().optional(),
+      // Mistral usually sends each call whole; OpenAI-style servers send argument fragments keyed by index
+      tool_calls: z.array(z.object({
+        index: z.number().optional(),
+        id: z.string().optional(),
+        type: z.string().optional(),
+        function: z.object({
+          name: z.string().optional(),
+          arguments: z.string().optional(),
+        }),
+      })).nullable().optional(),
+    }),
+    finish_reason: z.string().nullable().optional(),
+  })),
+  usage: z.object({
+    prompt_tokens: z.number(),
+    completion_tokens: z.number(),
+    total_tokens: z.number(),
+  }).nullable().optional(),
+});
+
+export type CompletionChunk = z.infer<typeof CompletionChunkSchema>;
+
+// Called with the newly received text and everything received so far for a choice
+export type StreamProgressHandler = (delta: string, text: string, index: number) => void | Promise<void>;
+
+// Split a byte stream into the data payloads of its server-sent events
+export async function* readServerSentEvents(stream: Readable): AsyncGenerator<string> {
+  let buffer = '';
+  let data: string[] = [];
+
+  const takeLine = (line: string): string | undefined => {
+    if (line === '') {
+      const event = data.length > 0 ? data.join('\n') : undefined;
+      data = [];
+      return event;
+    }
+    if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+    // Comments (":") and other fields (event, id, retry) are not used by Mistral
+    return undefined;
+  };
+
+  for await (const chunk of stream) {
+    buffer += typeof chunk === 'string' ? chunk : chunk.toString('utf-8');
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      const event = takeLine(line);
+      if (event !== undefined) {
+        yield event;
+      }
+    }
+  }
+
+  // Flush an event that was not followed by a blank line
+  if (buffer.length > 0) {
+    takeLine(buffer.replace(/\r$/, ''));
+  }
+  const event = takeLine('');
+  if (event !== undefined) {
+    yield event;
+  }
+}
+
+// Read a streamed completion and put the chunks back together into a single response
+export async function collectCompletionStream(
+  stream: Readable,
+  onProgress?: StreamProgressHandler
+): Promise<CompletionResponse> {
+  let head: Pick<CompletionResponse, 'id' | 'created' | 'model'> | undefined;
+  let usage: CompletionResponse['usage'] | undefined;
+  const choices = new Map<number, { role: string; content: string; tool_calls?: ToolCall[]; finish_reason?: string }>();
+
+  for await (const event of readServerSentEvents(stream)) {
+    if (event.trim() === '[DONE]') {
+      break;
+    }
+
+    const chunk = CompletionChunkSchema.parse(JSON.parse(event));
+    head ??= { id: chunk.id, created: chunk.created, model: chunk.model };
+    if (chunk.usage) {
+      usage = chunk.usage;
+    }
+
+    for (const choice of chunk.choices) {
+      const current = choices.get(choice.index) ?? { role: 'assistant', content: '' };
+      if (choice.delta.role) {
+        current.role = choice.delta.role;
+      }
+      if (choice.finish_reason) {
+        current.finish_reason = choice.finish_reason;
+      }
+      for (const call of choice.delta.tool_calls ?? []) {
+        current.tool_calls ??= [];
+        const index = call.index ?? current.tool_calls.length;
+        const existing = current.tool_calls[index];
+        if (existing && call.index !== undefined) {
+          existing.function.arguments += call.function.arguments ?? '';
+        } else {
+          current.tool_calls[index] = {
+            id: call.id,
+            type: call.type ?? 'function',
+            function: { name: call.function.name ?? '', arguments: call.function.arguments ?? '' },
+          };
+        }
+      }
+      const delta = choice.delta.content ?? '';
+      current.content += delta;
+      choices.set(choice.index, current);
+
+      if (delta && onProgress) {
+        await onProgress(delta, current.content, choice.index);
+      }
+    }
+  }
+
+  if (!head) {
+    throw new Error('Stream ended before any completion chunk was received');
+  }
+
+  return {
+    id: head.id,
+    object: 'chat.completion',
+    created: head.created,
+    model: head.model,
+    choices: [...choices.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([index, choice]) => ({
+        index,
+        message: { role: choice.role, content: choice.content, tool_calls: choice.tool_calls },
+        finish_reason: choice.finish_reason,
+      })),
+    // Mistral sends usage on the last chunk; fall back to zeros if it was cut off
+    usage: usage ?? { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+  };
+}
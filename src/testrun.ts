@@ -0,0 +1,160 @@
+import { spawn } from 'child_process';
+import path from 'path';
+
+// Run generated tests with a locally configured command and repair them from the failure output
+
+export interface TestRunnerOptions {
+  // Shell command per language (lowercase); '*' is used for any other language.
+  // `{file}` is replaced with the quoted path of the test file, which is also in $TEST_FILE.
+  commands: Record<string, string>;
+  // Directory the command runs in
+  cwd: string;
+  timeoutMs?: number;
+  // Default and upper bound for repair rounds after the first run
+  maxRepairRounds?: number;
+}
+
+export interface TestRun {
+  passed: boolean;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  // Combined stdout and stderr, keeping the end when it is too long
+  output: string;
+}
+
+export interface RepairRound extends TestRun {
+  round: number;
+  command: string;
+}
+
+export interface RepairResult {
+  code: string;
+  passed: boolean;
+  rounds: RepairRound[];
+}
+
+// Characters of test output kept for the report and the repair prompt
+const MAX_OUTPUT_CHARS = 8000;
+
+const EXTENSIONS: Record<string, string> = {
+  typescript: '.ts',
+  javascript: '.js',
+  python: '.py',
+  go: '.go',
+  rust: '.rs',
+  java: '.java',
+  kotlin: '.kt',
+  ruby: '.rb',
+  php: '.php',
+  csharp: '.cs',
+};
+
+// Usual file extension for code in a language
+export function sourceExtension(language: string | undefined): string {
+  return EXTENSIONS[language?.toLowerCase() ?? ''] ?? '.txt';
+}
+
+// File name for generated tests, following the usual convention of the language
+export function testFileName(language: string | undefined, sourcePath?: string): string {
+  const ext = sourcePath ? path.extname(sourcePath) : sourceExtension(language);
+  const base = sourcePath ? path.basename(sourcePath, ext) : 'generated';
+  switch (ext) {
+    case '.py':
+      return `test_${base}.py`;
+    case '.go':
+      return `${base}_test.go`;
+    case '.rb':
+      return `${base}_spec.rb`;
+    case '.java':
+    case '.kt':
+    case '.cs':
+    case '.php':
+      return `${base}Test${ext}`;
+    default:
+      return `${base}.test${ext}`;
+  }
+}
+
+export function testCommandFor(options: TestRunnerOptions, language: string | undefined): string | undefined {
+  return options.commands[language?.toLowerCase() ?? ''] ?? options.commands['*'];
+}
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+export function runTestCommand(command: string, file: string, options: { cwd: string; timeoutMs?: number }): Promise<TestRun> {
+  const started = Date.now();
+  const timeoutMs = options.timeoutMs ?? 120_000;
+
+  return new Promise((resolve, reject) => {
+    // Own process group so a timeout also stops whatever the command started
+    const child = spawn(command.replaceAll('{file}', shellQuote(file)), {
+      cwd: options.cwd,
+      shell: true,
+      detached: process.platform !== 'win32',
+      env: { ...process.env, TEST_FILE: file, CI: 'true' },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    let output = '';
+    const collect = (data: Buffer) => {
+      output = (output + data.toString('utf-8')).slice(-MAX_OUTPUT_CHARS * 2);
+    };
+    child.stdout.on('data', collect);
+    child.stderr.on('data', collect);
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        process.kill(-child.pid!, 'SIGKILL');
+      } catch {
+        child.kill('SIGKILL');
+      }
+    }, timeoutMs);
+
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', exitCode => {
+      clearTimeout(timer);
+      const trimmed = output.length > MAX_OUTPUT_CHARS
+        ? `[... ${output.length - MAX_OUTPUT_CHARS} characters cut ...]\n${output.slice(-MAX_OUTPUT_CHARS)}`
+        : output;
+      resolve({
+        passed: exitCode === 0 && !timedOut,
+        exitCode,
+        timedOut,
+        durationMs: Date.now() - started,
+        output: timedOut ? `${trimmed}\n[timed out after ${timeoutMs}ms]` : trimmed,
+      });
+    });
+  });
+}
+
+// Write and run the tests, asking for a fix after each failure until they pass or the rounds run out
+export async function runWithRepair(
+  initial: string,
+  steps: {
+    command: string;
+    maxRepairRounds: number;
+    write: (code: string) => Promise<string>;
+    run: (file: string) => Promise<TestRun>;
+    repair: (code: string, run: TestRun) => Promise<string>;
+  }
+): Promise<RepairResult> {
+  const rounds: RepairRound[] = [];
+  let code = initial;
+
+  for (let round = 0; ; round++) {
+    const file = await steps.write(code);
+    const run = await steps.run(file);
+    rounds.push({ round, command: steps.command, ...run });
+
+    if (run.passed || round >= steps.maxRepairRounds) {
+      return { code, passed: run.passed, rounds };
+    }
+    code = await steps.repair(code, run);
+  }
+}
@@ -0,0 +1,260 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createLogger } from './logger.js';
+
+const log = createLogger('usage');
+
+// Token usage of every API call, with estimated cost and spending limits
+
+export interface UsageTags {
+  // Tool the call was made for, e.g. "chat" or "code_completion"
+  tool: string;
+  task?: string;
+  // Client-supplied tag for charging usage to a project or team
+  project?: string;
+  // Client of a shared HTTP server the call was made for
+  owner?: string;
+}
+
+export interface UsageRecord extends UsageTags {
+  time: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Estimated cost in USD; 0 for models without a price
+  cost: number;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Estimates from the public price list; override them with the configured price table
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'codestral-latest': { input: 0.3, output: 0.9 },
+  'codestral-mamba-latest': { input: 0.25, output: 0.25 },
+  'mistral-large-latest': { input: 2, output: 6 },
+  'mistral-small-latest': { input: 0.1, output: 0.3 },
+  'ministral-8b-latest': { input: 0.1, output: 0.1 },
+  'ministral-3b-latest': { input: 0.04, output: 0.04 },
+  'codestral-embed': { input: 0.15, output: 0 },
+};
+
+export interface UsageBudgets {
+  // USD per UTC day and calendar month
+  daily?: number;
+  monthly?: number;
+}
+
+export interface UsageLedgerOptions {
+  // JSON lines file with one record per call
+  file: string;
+  prices?: Record<string, ModelPrice>;
+  budgets?: UsageBudgets;
+}
+
+export const USAGE_GROUPS = ['day', 'month', 'model', 'tool', 'task', 'project'] as const;
+export type UsageGroup = typeof USAGE_GROUPS[number];
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export interface UsageReport {
+  from?: string;
+  to?: string;
+  totals: UsageTotals;
+  groups: Array<Partial<Record<UsageGroup, string>> & UsageTotals>;
+  // Models that were used but have no price, so their cost is missing from the totals
+  unpriced: string[];
+  budgets: {
+    daily?: { limit: number; spent: number };
+    monthly?: { limit: number; spent: number };
+  };
+}
+
+export class BudgetExceededError extends Error {
+  constructor(readonly period: 'daily' | 'monthly', readonly limit: number, readonly spent: number) {
+    super(`The ${period} usage budget of $${limit.toFixed(2)} is used up ($${spent.toFixed(2)} spent); calls are refused until the ${period === 'daily' ? 'day' : 'month'} ends`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 });
+
+function addTo(totals: UsageTotals, record: UsageRecord) {
+  totals.requests++;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.totalTokens += record.totalTokens;
+  totals.cost += record.cost;
+}
+
+// Costs are estimates; keep reports readable
+const roundUsd = (cost: number) => Math.round(cost * 1e6) / 1e6;
+const roundCost = (totals: UsageTotals): UsageTotals => ({ ...totals, cost: roundUsd(totals.cost) });
+
+const groupValue = (record: UsageRecord, group: UsageGroup): string => {
+  switch (group) {
+    case 'day':
+      return record.time.slice(0, 10);
+    case 'month':
+      return record.time.slice(0, 7);
+    default:
+      return record[group] ?? '';
+  }
+};
+
+export class UsageLedger {
+  private records?: UsageRecord[];
+  private readonly prices: Record<string, ModelPrice>;
+  // Appends are chained so records land in the file in the order they were made
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private options: UsageLedgerOptions) {
+    this.prices = { ...DEFAULT_PRICES, ...options.prices };
+  }
+
+  cost(model: string, promptTokens: number, completionTokens: number): number {
+    const price = this.prices[model];
+    return price ? (promptTokens * price.input + completionTokens * price.output) / 1_000_000 : 0;
+  }
+
+  async record(
+    model: string,
+    usage: { prompt_tokens: number; completion_tokens?: number; total_tokens: number },
+    tags: UsageTags
+  ): Promise<UsageRecord> {
+    const records = await this.load();
+    const completionTokens = usage.completion_tokens ?? 0;
+    const record: UsageRecord = {
+      time: new Date().toISOString(),
+      ...tags,
+      model,
+      promptTokens: usage.prompt_tokens,
+      completionTokens,
+      totalTokens: usage.total_tokens,
+      cost: this.cost(model, usage.prompt_tokens, completionTokens),
+    };
+    records.push(record);
+
+    this.writing = this.writing.then(async () => {
+      try {
+        await fs.mkdir(path.dirname(this.options.file), { recursive: true });
+        await fs.appendFile(this.options.file, JSON.stringify(record) + '\n', 'utf-8');
+      } catch (error) {
+        // The call itself succeeded; a lost record only affects the numbers
+        log.error("Error writing usage record", { error });
+      }
+    });
+    await this.writing;
+    return record;
+  }
+
+  // Refuse further calls once a budget is used up
+  async checkBudget(now: Date = new Date()): Promise<void> {
+    const { daily, monthly } = this.options.budgets ?? {};
+    if (daily === undefined && monthly === undefined) {
+      return;
+    }
+    const spent = await this.spent(now);
+    if (daily !== undefined && spent.daily >= daily) {
+      throw new BudgetExceededError('daily', daily, spent.daily);
+    }
+    if (monthly !== undefined && spent.monthly >= monthly) {
+      throw new BudgetExceededError('monthly', monthly, spent.monthly);
+    }
+  }
+
+  // Usage between two dates (YYYY-MM-DD, inclusive, UTC), grouped by the given fields
+  async report(options: { from?: string; to?: string; groupBy?: UsageGroup[]; project?: string; owner?: string } = {}): Promise<UsageReport> {
+    const groupBy = options.groupBy ?? ['day', 'model', 'project'];
+    const records = (await this.load()).filter(record => {
+      const day = record.time.slice(0, 10);
+      return (!options.from || day >= options.from)
+        && (!options.to || day <= options.to)
+        && (options.project === undefined || record.project === options.project)
+        && (options.owner === undefined || record.owner === options.owner);
+    });
+
+    const totals = emptyTotals();
+    const groups = new Map<string, Partial<Record<UsageGroup, string>> & UsageTotals>();
+    const unpriced = new Set<string>();
+    for (const record of records) {
+      addTo(totals, record);
+      const key = groupBy.map(group => groupValue(record, group));
+      const id = JSON.stringify(key);
+      if (!groups.has(id)) {
+        groups.set(id, { ...Object.fromEntries(groupBy.map((group, i) => [group, key[i]])), ...emptyTotals() });
+      }
+      addTo(groups.get(id)!, record);
+      if (!this.prices[record.model]) {
+        unpriced.add(record.model);
+      }
+    }
+
+    const { daily, monthly } = this.options.budgets ?? {};
+    const spent = await this.spent(new Date());
+    return {
+      from: options.from,
+      to: options.to,
+      totals: roundCost(totals),
+      groups: [...groups.values()]
+        .map(group => ({ ...group, ...roundCost(group) }))
+        .sort((a, b) => groupBy.reduce((order, group) => order || (a[group] ?? '').localeCompare(b[group] ?? ''), 0)),
+      unpriced: [...unpriced].sort(),
+      budgets: {
+        ...(daily !== undefined ? { daily: { limit: daily, spent: roundUsd(spent.daily) } } : {}),
+        ...(monthly !== undefined ? { monthly: { limit: monthly, spent: roundUsd(spent.monthly) } } : {}),
+      },
+    };
+  }
+
+  private async spent(now: Date): Promise<{ daily: number; monthly: number }> {
+    const day = now.toISOString().slice(0, 10);
+    const month = day.slice(0, 7);
+    let daily = 0;
+    let monthly = 0;
+    for (const record of await this.load()) {
+      if (record.time.startsWith(month)) {
+        monthly += record.cost;
+        if (record.time.startsWith(day)) {
+          daily += record.cost;
+        }
+      }
+    }
+    return { daily, monthly };
+  }
+
+  private async load(): Promise<UsageRecord[]> {
+    if (this.records) {
+      return this.records;
+    }
+    let text = '';
+    try {
+      text = await fs.readFile(this.options.file, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    // A line cut short by a crash is skipped rather than failing every call
+    const records = text.split('\n').flatMap(line => {
+      try {
+        return line.trim() ? [JSON.parse(line) as UsageRecord] : [];
+      } catch {
+        return [];
+      }
+    });
+    // Another caller may have finished loading while we read
+    this.records ??= records;
+    return this.records;
+  }
+}
@@ -0,0 +1,305 @@
+import fs from 'fs/promises';
+import { watch as watchDirectory, Dirent, FSWatcher } from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import ignore, { Ignore } from 'ignore';
+import { createLogger } from './logger.js';
+
+const log = createLogger('workspace');
+
+// Workspace files exposed as MCP resources, confined to a set of root directories
+
+export interface WorkspaceOptions {
+  // Characters returned per resources/read page
+  pageSize?: number;
+  // Upper bound on the number of files listed, to keep huge trees from stalling the server
+  maxFiles?: number;
+}
+
+export interface WorkspaceFile {
+  uri: string;
+  name: string;
+  path: string;
+  mimeType: string;
+}
+
+export interface WorkspacePage {
+  uri: string;
+  mimeType: string;
+  text: string;
+  page: number;
+  totalPages: number;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.ts': 'text/x-typescript',
+  '.tsx': 'text/x-typescript',
+  '.js': 'text/javascript',
+  '.jsx': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.cjs': 'text/javascript',
+  '.json': 'application/json',
+  '.md': 'text/markdown',
+  '.py': 'text/x-python',
+  '.go': 'text/x-go',
+  '.rs': 'text/x-rust',
+  '.java': 'text/x-java',
+  '.kt': 'text/x-kotlin',
+  '.c': 'text/x-c',
+  '.h': 'text/x-c',
+  '.cpp': 'text/x-c++',
+  '.hpp': 'text/x-c++',
+  '.cs': 'text/x-csharp',
+  '.rb': 'text/x-ruby',
+  '.php': 'text/x-php',
+  '.sh': 'text/x-shellscript',
+  '.yml': 'application/yaml',
+  '.yaml': 'application/yaml',
+  '.toml': 'application/toml',
+  '.xml': 'application/xml',
+  '.html': 'text/html',
+  '.css': 'text/css',
+  '.sql': 'application/sql',
+};
+
+export function mimeTypeFor(filePath: string): string {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] ?? 'text/plain';
+}
+
+// Is `target` equal to or below `root`? Both must already be absolute and normalized
+export function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+interface IgnoreScope {
+  dir: string;
+  rules: Ignore;
+}
+
+export class Workspace {
+  readonly roots: string[];
+  private readonly pageSize: number;
+  private readonly maxFiles: number;
+  // One set of directory watchers serves every subscriber, however many sessions watch the workspace
+  private readonly watchSubscribers = new Set<() => void>();
+  private stopWatcher?: () => void;
+
+  constructor(roots: string[], options: WorkspaceOptions = {}) {
+    if (roots.length === 0) {
+      throw new Error('At least one workspace root is required');
+    }
+    this.roots = roots.map(root => path.resolve(root));
+    this.pageSize = options.pageSize ?? 100_000;
+    this.maxFiles = options.maxFiles ?? 10_000;
+  }
+
+  // Resolve a path (following symlinks) and make sure it stays inside one of the roots
+  async resolve(filePath: string): Promise<string> {
+    const absolute = path.resolve(this.roots[0], filePath);
+    let real: string;
+    try {
+      real = await fs.realpath(absolute);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`File not found: ${filePath}`);
+      }
+      throw error;
+    }
+
+    const realRoots = await Promise.all(this.roots.map(root => fs.realpath(root).catch(() => root)));
+    if (!realRoots.some(root => isInside(root, real))) {
+      throw new Error(`Access denied: ${filePath} is outside the workspace roots`);
+    }
+    return real;
+  }
+
+  // Map a file:// resource URI to a path inside the workspace
+  async resolveUri(uri: string): Promise<string> {
+    let url: URL;
+    try {
+      url = new URL(uri);
+    } catch {
+      throw new Error(`Invalid resource URI: ${uri}`);
+    }
+    if (url.protocol !== 'file:') {
+      throw new Error(`Unsupported resource URI: ${uri}`);
+    }
+    url.search = '';
+    return this.resolve(fileURLToPath(url));
+  }
+
+  // List all non-ignored files under the roots
+  async list(): Promise<WorkspaceFile[]> {
+    const files: WorkspaceFile[] = [];
+
+    for (const root of this.roots) {
+      await this.walk(root, [], async (dir, entries) => {
+        for (const entry of entries) {
+          if (files.length >= this.maxFiles) {
+            return;
+          }
+          if (entry.isFile()) {
+            const filePath = path.join(dir, entry.name);
+            files.push({
+              uri: pathToFileURL(filePath).href,
+              name: path.relative(root, filePath).split(path.sep).join('/'),
+              path: filePath,
+              mimeType: mimeTypeFor(filePath),
+            });
+          }
+        }
+      });
+    }
+
+    return files;
+  }
+
+  // Read one page of a workspace file; pages are 1-based and may also be given as ?page=N in the URI
+  async read(uri: string, page?: number): Promise<WorkspacePage> {
+    const filePath = await this.resolveUri(uri);
+    const requestedPage = page ?? Number(new URL(uri).searchParams.get('page') ?? 1);
+
+    const stat = await fs.stat(filePath);
+    if (!stat.isFile()) {
+      throw new Error(`Not a file: ${uri}`);
+    }
+
+    const text = await fs.readFile(filePath, 'utf-8');
+    const totalPages = Math.max(1, Math.ceil(text.length / this.pageSize));
+    if (!Number.isInteger(requestedPage) || requestedPage < 1 || requestedPage > totalPages) {
+      throw new Error(`Page ${requestedPage} is out of range (1-${totalPages}) for ${uri}`);
+    }
+
+    const start = (requestedPage - 1) * this.pageSize;
+    return {
+      uri: pathToFileURL(filePath).href,
+      mimeType: mimeTypeFor(filePath),
+      text: text.slice(start, start + this.pageSize),
+      page: requestedPage,
+      totalPages,
+    };
+  }
+
+  // Call `onChange` (debounced) when files are added, removed or renamed; returns a function that unsubscribes.
+  // The first subscriber starts the watchers and the last one to leave stops them
+  watch(onChange: () => void, debounceMs: number = 200): () => void {
+    const subscriber = () => onChange();
+    this.watchSubscribers.add(subscriber);
+    this.stopWatcher ??= this.startWatching(debounceMs);
+    return () => {
+      if (this.watchSubscribers.delete(subscriber) && this.watchSubscribers.size === 0) {
+        this.stopWatcher?.();
+        this.stopWatcher = undefined;
+      }
+    };
+  }
+
+  // Watch every non-ignored directory and tell the subscribers about changes
+  private startWatching(debounceMs: number): () => void {
+    const subscribers = this.watchSubscribers;
+    const watchers = new Map<string, FSWatcher>();
+    let timer: NodeJS.Timeout | undefined;
+    let closed = false;
+
+    const refresh = async () => {
+      const seen = new Set<string>();
+      for (const root of this.roots) {
+        await this.walk(root, [], async dir => {
+          seen.add(dir);
+        });
+      }
+      if (closed) {
+        return;
+      }
+      for (const [dir, watcher] of watchers) {
+        if (!seen.has(dir)) {
+          watcher.close();
+          watchers.delete(dir);
+        }
+      }
+      for (const dir of seen) {
+        if (!watchers.has(dir)) {
+          try {
+            const watcher = watchDirectory(dir, schedule);
+            watcher.on('error', () => {
+              watcher.close();
+              watchers.delete(dir);
+            });
+            watchers.set(dir, watcher);
+          } catch {
+            // The directory disappeared between the walk and the watch
+          }
+        }
+      }
+    };
+
+    function schedule(eventType: string) {
+      // Content changes do not affect the resource list
+      if (eventType !== 'rename' || closed) {
+        return;
+      }
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        refresh()
+          .then(() => {
+            for (const subscriber of subscribers) {
+              subscriber();
+            }
+          })
+          .catch(error => log.warning("Error refreshing workspace watchers", { error }));
+      }, debounceMs);
+    }
+
+    refresh().catch(error => log.warning("Error watching workspace", { error }));
+
+    return () => {
+      closed = true;
+      clearTimeout(timer);
+      for (const watcher of watchers.values()) {
+        watcher.close();
+      }
+      watchers.clear();
+    };
+  }
+
+  // Depth-first walk that honours .gitignore files at every level
+  private async walk(
+    dir: string,
+    scopes: IgnoreScope[],
+    visit: (dir: string, entries: Dirent[]) => Promise<void>
+  ): Promise<void> {
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    const gitignore = entries.find(entry => entry.isFile() && entry.name === '.gitignore');
+    if (gitignore) {
+      const rules = ignore().add(await fs.readFile(path.join(dir, '.gitignore'), 'utf-8'));
+      scopes = [...scopes, { dir, rules }];
+    }
+
+    const isIgnored = (entry: Dirent) => {
+      if (entry.name === '.git') {
+        return true;
+      }
+      const absolute = path.join(dir, entry.name);
+      return scopes.some(scope => {
+        const relative = path.relative(scope.dir, absolute).split(path.sep).join('/');
+        return scope.rules.ignores(entry.isDirectory() ? `${relative}/` : relative);
+      });
+    };
+
+    const visible = entries.filter(entry => !isIgnored(entry));
+    await visit(dir, visible);
+
+    for (const entry of visible) {
+      if (entry.isDirectory()) {
+        await this.walk(path.join(dir, entry.name), scopes, visit);
+      }
+    }
+  }
+}
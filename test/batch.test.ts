@@ -0,0 +1,138 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { MistralAPI } from '../src/mistral.js';
+import { createServer } from '../src/server.js';
+import { MockMistralServer } from '../src/mock/server.js';
+import { Workspace } from '../src/workspace.js';
+import { expandOutputPath, runJobs } from '../src/batch.js';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('runJobs', () => {
+  it('keeps to the concurrency limit and returns results in order', async () => {
+    let active = 0;
+    let peak = 0;
+    const results = await runJobs([30, 10, 20, 0, 10], async (ms, index) => {
+      active++;
+      peak = Math.max(peak, active);
+      await sleep(ms);
+      active--;
+      if (index === 3) {
+        throw new Error('broken');
+      }
+      return ms * 2;
+    }, { concurrency: 2 });
+
+    expect(peak).toBe(2);
+    expect(results.map(result => result.value ?? result.error)).toEqual([60, 20, 40, 'broken', 20]);
+  });
+
+  it('cancels jobs that have not started once the signal aborts', async () => {
+    const controller = new AbortController();
+    const results = await runJobs([1, 2, 3, 4], async item => item, {
+      concurrency: 1,
+      signal: controller.signal,
+      onSettled: (_result, index) => {
+        if (index === 1) {
+          controller.abort();
+        }
+      },
+    });
+
+    expect(results.map(result => result.status)).toEqual(['ok', 'ok', 'cancelled', 'cancelled']);
+  });
+
+  it('expands output path templates', () => {
+    expect(expandOutputPath('test/{dir}/{stem}.test{ext}', 'src/util/add.ts')).toBe('test/src/util/add.test.ts');
+    expect(expandOutputPath('{dir}/{stem}_test{ext}', 'main.go')).toBe('main_test.go');
+    expect(expandOutputPath('{path}', 'a/b.py')).toBe('a/b.py');
+  });
+});
+
+describe('batch_code_task', () => {
+  const mock = new MockMistralServer({ apiKey: 'test-key' });
+  let root: string;
+  let client: Client;
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    mock.reset();
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'batch-')));
+    await fs.mkdir(path.join(root, 'src'));
+    for (const name of ['a', 'b', 'c']) {
+      await fs.writeFile(path.join(root, 'src', `${name}.ts`), `export const ${name} = 1;\n`);
+    }
+    await fs.writeFile(path.join(root, 'src', 'a.test.ts'), 'existing test\n');
+
+    const api = new MistralAPI('test-key', { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer(api, { workspace: new Workspace([root]) }).connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('runs the task over matching files and summarizes the results', async () => {
+    mock.enqueue('/chat/completions', { content: '```ts\ntest a\n```' });
+    mock.failNext('/chat/completions', 400);
+    mock.enqueue('/chat/completions', { content: '```ts\ntest c\n```' });
+    const progress: string[] = [];
+
+    const result = await client.callTool({
+      name: 'batch_code_task',
+      arguments: { task: 'test', files: ['src/*.ts'], exclude: ['*.test.ts'], output_path: 'test/{stem}.test{ext}', concurrency: 1 },
+    }, undefined, { onprogress: update => { progress.push(update.message ?? ''); } });
+
+    expect(result.isError).toBe(false);
+    expect(result.structuredContent).toMatchObject({
+      summary: { files: 3, succeeded: 2, failed: 1, cancelled: 0 },
+      results: [
+        { file: 'src/a.ts', status: 'ok', output: 'test/a.test.ts' },
+        { file: 'src/b.ts', status: 'error', error: expect.stringContaining('400') },
+        { file: 'src/c.ts', status: 'ok', output: 'test/c.test.ts' },
+      ],
+    });
+    expect((result.content as Array<{ text: string }>)[0].text).toContain('| src/b.ts | error |');
+    expect(await fs.readFile(path.join(root, 'test/c.test.ts'), 'utf-8')).toBe('test c');
+    expect(progress).toHaveLength(3);
+    expect(progress[0]).toBe('src/a.ts: done');
+  });
+
+  it('refuses batches larger than max_files', async () => {
+    const result = await client.callTool({ name: 'batch_code_task', arguments: { task: 'fix', files: ['**/*.ts'], max_files: 2 } });
+
+    expect(result.isError).toBe(true);
+    expect((result.content as Array<{ text: string }>)[0].text).toContain('4 files match');
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  it('stops starting files when the request is cancelled', async () => {
+    for (let i = 0; i < 4; i++) {
+      mock.enqueue('/chat/completions', { content: 'x', delayMs: 100 });
+    }
+    const controller = new AbortController();
+
+    const call = client.callTool({ name: 'batch_code_task', arguments: { task: 'fix', files: ['src/**'], concurrency: 1 } }, undefined, {
+      signal: controller.signal,
+      onprogress: () => controller.abort(),
+    });
+
+    await expect(call).rejects.toThrow();
+    await sleep(300);
+    expect(mock.requests.length).toBeLessThan(4);
+  });
+});
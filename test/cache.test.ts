@@ -0,0 +1,95 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { MistralAPI } from '../src/mistral.js';
+import { MockMistralServer } from '../src/mock/server.js';
+import { ResponseCache } from '../src/cache.js';
+
+describe('response cache', () => {
+  const mock = new MockMistralServer();
+  let dir: string;
+
+  const api = (cache: ResponseCache) => new MistralAPI('test-key', {
+    codestralBaseUrl: mock.url,
+    mistralBaseUrl: mock.url,
+    cache,
+  });
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    mock.reset();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('answers repeated temperature 0 requests from the cache', async () => {
+    const cache = new ResponseCache();
+    const client = api(cache);
+
+    const first = await client.fimCompletion('def add(a, b):\n    ', { suffix: '\n' });
+    const second = await client.fimCompletion('def add(a, b):\n    ', { suffix: '\n' });
+    await client.chatCompletion([{ role: 'user', content: 'hi' }]);
+    await client.chatCompletion([{ role: 'user', content: 'hi' }]);
+
+    expect(second).toEqual(first);
+    // Sampled chat requests go to the API every time
+    expect(mock.requests).toHaveLength(3);
+    expect(await cache.stats()).toMatchObject({ hits: 1, misses: 1, skipped: 2, entries: 1, savedTokens: first.usage.total_tokens });
+  });
+
+  it('bypasses or refreshes the cache on request', async () => {
+    const client = api(new ResponseCache());
+    mock.enqueue('/fim/completions', { content: 'old' });
+    mock.enqueue('/fim/completions', { content: 'ignored' });
+    mock.enqueue('/fim/completions', { content: 'new' });
+
+    await client.fimCompletion('x = ');
+    expect((await client.fimCompletion('x = ', { cache: 'bypass' })).choices[0].message.content).toBe('ignored');
+    expect((await client.fimCompletion('x = ')).choices[0].message.content).toBe('old');
+    await client.fimCompletion('x = ', { cache: 'refresh' });
+    expect((await client.fimCompletion('x = ')).choices[0].message.content).toBe('new');
+    expect(mock.requests).toHaveLength(3);
+  });
+
+  it('expires entries and evicts the least recently used ones', async () => {
+    const expiring = api(new ResponseCache({ ttlMs: 1 }));
+    await expiring.fimCompletion('a');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await expiring.fimCompletion('a');
+    expect(mock.requests).toHaveLength(2);
+
+    mock.reset();
+    // Room for about two responses
+    const cache = new ResponseCache({ maxBytes: 800 });
+    const client = api(cache);
+    await client.fimCompletion('a');
+    await client.fimCompletion('b');
+    await client.fimCompletion('a');
+    await client.fimCompletion('c');
+    await client.fimCompletion('a');
+    await client.fimCompletion('b');
+
+    expect(mock.requests.map(request => request.body.prompt)).toEqual(['a', 'b', 'c', 'b']);
+    expect((await cache.stats()).evictions).toBeGreaterThan(0);
+  });
+
+  it('keeps entries on disk across restarts', async () => {
+    await api(new ResponseCache({ dir })).fimCompletion('x = ');
+    const restarted = new ResponseCache({ dir });
+
+    await api(restarted).fimCompletion('x = ');
+
+    expect(mock.requests).toHaveLength(1);
+    expect(await restarted.stats()).toMatchObject({ hits: 1, entries: 1 });
+  });
+});
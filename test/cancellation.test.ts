@@ -0,0 +1,118 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { MistralAPI } from '../src/mistral.js';
+import { createServer } from '../src/server.js';
+import { MockMistralServer } from '../src/mock/server.js';
+import { RequestAbortedError } from '../src/retry.js';
+import { UsageLedger } from '../src/usage.js';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('cancellation and timeouts', () => {
+  const mock = new MockMistralServer({ apiKey: 'test-key' });
+  let dir: string;
+  let usage: UsageLedger;
+  let api: MistralAPI;
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    mock.reset();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cancel-'));
+    usage = new UsageLedger({ file: path.join(dir, 'usage.jsonl') });
+    api = new MistralAPI('test-key', { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url, usage, rateLimit: { requestsPerMinute: 1 } });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const aborted = async (promise: Promise<unknown>) => {
+    const error = await promise.catch(caught => caught);
+    expect(error).toBeInstanceOf(RequestAbortedError);
+    return error as RequestAbortedError;
+  };
+
+  it('aborts a request in flight', async () => {
+    mock.enqueue('/fim/completions', { content: 'late', delayMs: 2000 });
+    const controller = new AbortController();
+    const started = Date.now();
+
+    const call = api.fimCompletion('x = ', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 50);
+
+    expect((await aborted(call)).reason).toBe('cancelled');
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('stops waiting for the rate limiter when cancelled', async () => {
+    await api.chatCompletion([{ role: 'user', content: 'first' }]);
+    const controller = new AbortController();
+
+    // The limit of one request per minute is used up, so this call would wait for a minute
+    const call = api.chatCompletion([{ role: 'user', content: 'second' }], { signal: controller.signal });
+    setTimeout(() => controller.abort(), 50);
+
+    expect((await aborted(call)).reason).toBe('cancelled');
+    expect(mock.requests).toHaveLength(1);
+  });
+
+  it('fails with a timeout error after timeout_ms', async () => {
+    mock.enqueue('/chat/completions', { content: 'late', delayMs: 1000 });
+
+    const error = await aborted(api.chatCompletion([{ role: 'user', content: 'hi' }], { timeoutMs: 100 }));
+
+    expect(error).toMatchObject({ reason: 'timeout', timeoutMs: 100 });
+    expect(mock.requests).toHaveLength(1);
+  });
+
+  describe('through the MCP server', () => {
+    let client: Client;
+
+    beforeEach(async () => {
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await createServer(api, { usage }).connect(serverTransport);
+      client = new Client({ name: "test-client", version: "1.0.0" });
+      await client.connect(clientTransport);
+    });
+
+    afterEach(async () => {
+      await client.close();
+    });
+
+    it('reports timeouts as a distinct error', async () => {
+      mock.enqueue('/chat/completions', { content: 'late', delayMs: 1000 });
+
+      const result = await client.callTool({
+        name: 'code_completion',
+        arguments: { task: 'complete', code: 'def f(', timeout_ms: 100 },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse((result.content as Array<{ text: string }>)[0].text)).toMatchObject({ error: 'request_timeout', timeout_ms: 100 });
+    });
+
+    it('aborts the API call when the client cancels the tool call', async () => {
+      mock.enqueue('/chat/completions', { content: 'late', delayMs: 500 });
+      const controller = new AbortController();
+
+      const call = client.callTool({ name: 'chat', arguments: { messages: [{ role: 'user', content: 'hi' }] } }, undefined, { signal: controller.signal });
+      setTimeout(() => controller.abort(), 50);
+
+      await expect(call).rejects.toThrow();
+      await sleep(700);
+      // The response arrived after the abort and was never used, so nothing was recorded
+      expect(mock.requests).toHaveLength(1);
+      expect((await usage.report()).totals.requests).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { MistralAPI } from '../src/mistral.js';
+import { createServer } from '../src/server.js';
+import { MockMistralServer } from '../src/mock/server.js';
+import { CodeValidator, languageOf, rankCandidates } from '../src/candidates.js';
+import { ResponseCache } from '../src/cache.js';
+
+describe('CodeValidator', () => {
+  const validator = new CodeValidator();
+
+  it('checks TypeScript, JSON and YAML syntax', async () => {
+    expect(await validator.check('const x: number = 1;', 'typescript')).toMatchObject({ ok: true, checker: 'typescript' });
+    const broken = await validator.check('function f( {\n  return 1;\n}', 'typescript');
+    expect(broken?.ok).toBe(false);
+    expect(broken?.errors[0]).toMatch(/^\d+:\d+ /);
+
+    expect((await validator.check('{"a": 1}', 'json'))?.ok).toBe(true);
+    expect((await validator.check('{"a": 1,}', 'json'))?.ok).toBe(false);
+    expect((await validator.check('a: 1\nb: [2, 3]', languageOf(undefined, 'config.yml')))?.ok).toBe(true);
+    expect((await validator.check('a: [1, 2', 'yaml'))?.ok).toBe(false);
+  });
+
+  it('uses registered checkers and skips unknown languages', async () => {
+    validator.register('python', code => ({ ok: !code.includes('print '), checker: 'py3', errors: ['print statement'] }));
+
+    expect(await validator.check('print "hi"', 'python')).toMatchObject({ ok: false, checker: 'py3' });
+    expect(await validator.check('anything', 'cobol')).toBeUndefined();
+  });
+});
+
+describe('rankCandidates', () => {
+  it('prefers complete candidates that others agree with', async () => {
+    const ranked = await rankCandidates([
+      { index: 0, code: 'a()', finishReason: 'length' },
+      { index: 1, code: 'b()', finishReason: 'stop' },
+      { index: 2, code: 'c()', finishReason: 'stop' },
+      { index: 3, code: 'c( )', finishReason: 'stop' },
+      { index: 4, code: '  ', finishReason: 'stop' },
+    ], async () => ({ ok: true, checker: 'test', errors: [] }));
+
+    expect(ranked.accepted.map(candidate => candidate.index)).toEqual([1, 2, 3, 0]);
+    expect(ranked.rejected).toMatchObject([{ index: 4, reason: 'The candidate is empty' }]);
+  });
+});
+
+describe('code_completion with candidates', () => {
+  const mock = new MockMistralServer({ apiKey: 'test-key' });
+  let client: Client;
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    mock.reset();
+    const api = new MistralAPI('test-key', { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer(api).connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('returns the best valid candidate and reports the rejected ones', async () => {
+    mock.enqueue('/chat/completions', {
+      choices: [
+        "```ts\nexport function add(a: number, b: number {\n  return a + b;\n}\n```",
+        "```ts\nexport const add = (a: number, b: number) => a + b;\n```",
+        "```ts\nexport function add(a: number, b: number) {\n  return a + b;\n}\n```",
+      ],
+    });
+
+    const result = await client.callTool({
+      name: 'code_completion',
+      arguments: { task: 'complete', code: 'export function add(', language: 'typescript', temperature: 0.7, candidates: 3 },
+    });
+
+    expect(mock.requests[0].body.n).toBe(3);
+    expect(result.isError).toBeFalsy();
+    const content = result.content as Array<{ text: string }>;
+    expect(content[0].text).toBe('export const add = (a: number, b: number) => a + b;');
+    expect(result.structuredContent).toMatchObject({
+      candidates: {
+        chosen: 1,
+        accepted: [{ index: 1, checker: 'typescript' }, { index: 2, checker: 'typescript' }],
+        rejected: [{ index: 0, reason: expect.stringContaining('Failed the typescript check') }],
+      },
+    });
+  });
+
+  it('fails when no candidate passes the checks', async () => {
+    mock.enqueue('/chat/completions', { choices: ['{"a": 1,}', '{"a": '] });
+
+    const result = await client.callTool({
+      name: 'code_completion',
+      arguments: { task: 'complete', code: '{"a":', language: 'json', candidates: 2 },
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result.structuredContent as { candidates: { rejected: unknown[] } }).candidates.rejected).toHaveLength(2);
+  });
+
+  it('samples FIM candidates past the cache', async () => {
+    const api = new MistralAPI('test-key', {
+      codestralBaseUrl: mock.url,
+      mistralBaseUrl: mock.url,
+      cache: new ResponseCache({ anyTemperature: true }),
+    });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer(api).connect(serverTransport);
+    const cached = new Client({ name: "test-client", version: "1.0.0" });
+    await cached.connect(clientTransport);
+    mock.enqueue('/fim/completions', { content: '1' }, { content: '2' }, { content: '2' });
+
+    const result = await cached.callTool({
+      name: 'code_completion',
+      arguments: { task: 'fim', code: '{"a": ', suffix: '}', language: 'json', candidates: 3 },
+    });
+    const refused = await cached.callTool({
+      name: 'code_completion',
+      arguments: { task: 'fim', code: '{"a": ', suffix: '}', language: 'json', candidates: 2, temperature: 0 },
+    });
+    await cached.close();
+
+    expect(mock.requests.map(request => request.body.temperature)).toEqual([0.7, 0.7, 0.7]);
+    expect((result.content as Array<{ text: string }>)[0].text).toBe('2');
+    // The two candidates that agree rank above the one that differs
+    expect(result.structuredContent).toMatchObject({ candidates: { accepted: [{ index: 1 }, { index: 2 }, { index: 0 }] } });
+    expect(refused.isError).toBe(true);
+    expect((refused.content as Array<{ text: string }>)[0].text).toContain('candidates needs a temperature above 0');
+  });
+});
@@ -0,0 +1,67 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { MistralAPI } from '../src/mistral.js';
+import { requestKey } from '../src/cassette.js';
+import { MockMistralServer } from '../src/mock/server.js';
+
+describe('record/replay cassettes', () => {
+  const mock = new MockMistralServer();
+  let dir: string;
+
+  const api = (mode: 'record' | 'replay', baseUrl: string) => new MistralAPI('test-key', {
+    codestralBaseUrl: baseUrl,
+    mistralBaseUrl: baseUrl,
+    retry: { maxRetries: 0 },
+    recording: { mode, dir },
+  });
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    mock.reset();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassettes-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('replays recorded chat and FIM responses without touching the network', async () => {
+    mock.enqueue('/chat/completions', { content: '```py\nprint("hi")\n```' });
+    mock.enqueue('/fim/completions', { content: 'return a + b' });
+
+    const recorder = api('record', mock.url);
+    const messages = recorder.createPrompt('print(', 'python', 'complete');
+    const recordedChat = await recorder.chatCompletion(messages, { temperature: 0 });
+    const recordedFim = await recorder.fimCompletion('def add(a, b):\n    ', { suffix: '\n' });
+    expect(await fs.readdir(dir)).toHaveLength(2);
+
+    // Nothing listens on port 9, so any real request would fail
+    const player = api('replay', 'http://127.0.0.1:9/v1');
+    await expect(player.chatCompletion(messages, { temperature: 0, stream: true })).resolves.toEqual(recordedChat);
+    await expect(player.fimCompletion('def add(a, b):\n    ', { suffix: '\n' })).resolves.toEqual(recordedFim);
+    expect(mock.requests).toHaveLength(2);
+  });
+
+  it('fails hard on requests that were not recorded', async () => {
+    const player = api('replay', mock.url);
+
+    await expect(player.chatCompletion([{ role: 'user', content: 'never recorded' }]))
+      .rejects.toThrow(/No recorded response for \/chat\/completions/);
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  it('keys requests independently of field order and undefined fields', () => {
+    expect(requestKey('/fim/completions', { prompt: 'a', suffix: undefined, max_tokens: 5 }))
+      .toBe(requestKey('/fim/completions', { max_tokens: 5, prompt: 'a', stream: true }));
+    expect(requestKey('/fim/completions', { prompt: 'a' }))
+      .not.toBe(requestKey('/chat/completions', { prompt: 'a' }));
+  });
+});
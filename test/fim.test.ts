@@ -0,0 +1,98 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { cursorIndex, splitAtCursor } from '../src/fim.js';
+import { MistralAPI } from '../src/mistral.js';
+import { createServer } from '../src/server.js';
+import { MockMistralServer } from '../src/mock/server.js';
+import { Workspace } from '../src/workspace.js';
+
+describe('splitAtCursor', () => {
+  const source = 'function add(a, b) {\n  \n}\n';
+
+  it('splits at a 1-based line and column', () => {
+    expect(splitAtCursor(source, { line: 2, column: 3 }, 1000)).toEqual({
+      prompt: 'function add(a, b) {\n  ',
+      suffix: '\n}\n',
+      index: 23,
+    });
+  });
+
+  it('accepts UTF-8 byte offsets', () => {
+    const text = 'const é = 1;';
+    expect(cursorIndex(text, { offset: 8 })).toBe(7);
+    expect(() => cursorIndex(text, { offset: 7 })).toThrow(/multi-byte/);
+  });
+
+  it('rejects cursors outside the file', () => {
+    expect(() => cursorIndex(source, { line: 9, column: 1 })).toThrow(/Line 9/);
+    expect(() => cursorIndex(source, { line: 2, column: 9 })).toThrow(/Column 9/);
+  });
+
+  it('trims both sides to the budget at line boundaries', () => {
+    const before = Array.from({ length: 50 }, (_, i) => `line ${i}`).join('\n') + '\n';
+    const after = '\n' + Array.from({ length: 50 }, (_, i) => `tail ${i}`).join('\n');
+    const { prompt, suffix } = splitAtCursor(before + after, { offset: before.length }, 20);
+
+    expect(prompt.length + suffix.length).toBeLessThanOrEqual(80);
+    expect(prompt.endsWith('line 49\n')).toBe(true);
+    expect(prompt.startsWith('line ')).toBe(true);
+    expect(suffix.startsWith('\ntail 0\n')).toBe(true);
+  });
+});
+
+describe('file-based FIM through code_completion', () => {
+  const mock = new MockMistralServer();
+  let root: string;
+  let client: Client;
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    mock.reset();
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'fim-'));
+    await fs.writeFile(path.join(root, 'add.js'), 'function add(a, b) {\n  \n}\n');
+
+    const api = new MistralAPI('test-key', { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer(api, { workspace: new Workspace([root]) }).connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('sends the code around the cursor and inserts the result', async () => {
+    mock.enqueue('/fim/completions', { content: 'return a + b;' });
+
+    const result = await client.callTool({
+      name: 'code_completion',
+      arguments: { task: 'fim', filePath: 'add.js', line: 2, column: 3, insert: true },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(mock.requests[0].body).toMatchObject({ prompt: 'function add(a, b) {\n  ', suffix: '\n}\n' });
+    expect(await fs.readFile(path.join(root, 'add.js'), 'utf-8')).toBe('function add(a, b) {\n  return a + b;\n}\n');
+  });
+
+  it('refuses files outside the workspace', async () => {
+    const result = await client.callTool({
+      name: 'code_completion',
+      arguments: { task: 'fim', filePath: '../../etc/passwd', line: 1 },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(mock.requests).toHaveLength(0);
+  });
+});
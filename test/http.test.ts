@@ -0,0 +1,152 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { MistralAPI } from '../src/mistral.js';
+import { createServer } from '../src/server.js';
+import { MockMistralServer } from '../src/mock/server.js';
+import { McpHttpServer } from '../src/http.js';
+import { SessionStore } from '../src/sessions.js';
+import { UsageLedger } from '../src/usage.js';
+
+describe('HTTP transport', () => {
+  const mock = new MockMistralServer({ apiKey: 'test-key' });
+  let httpServer: McpHttpServer;
+  let url: string;
+  let dir: string;
+  const clients: Client[] = [];
+
+  const connect = async (token: string) => {
+    const transport = new StreamableHTTPClientTransport(new URL(url), {
+      requestInit: { headers: { Authorization: `Bearer ${token}` } },
+    });
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(transport);
+    clients.push(client);
+    return { client, transport };
+  };
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    mock.reset();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'http-'));
+    const usage = new UsageLedger({ file: path.join(dir, 'usage.jsonl') });
+    const sessions = new SessionStore(path.join(dir, 'sessions'));
+    const api = new MistralAPI('test-key', { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url, usage });
+    httpServer = new McpHttpServer(owner => createServer(api, { sessions, usage, owner }), { port: 0, tokens: ['alice-token', 'bob-token'] });
+    url = await httpServer.start();
+  });
+
+  afterEach(async () => {
+    for (const client of clients.splice(0)) {
+      await client.close();
+    }
+    await httpServer.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('rejects clients without a valid token', async () => {
+    const initialize = {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'x', version: '1' } },
+    };
+    const post = (headers: Record<string, string>) => fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body: JSON.stringify(initialize),
+    });
+
+    expect((await post({})).status).toBe(401);
+    expect((await post({ Authorization: 'Bearer wrong' })).status).toBe(401);
+    expect((await post({ 'X-API-Key': 'bob-token' })).status).toBe(200);
+  });
+
+  it('gives each client its own session', async () => {
+    const alice = await connect('alice-token');
+    const bob = await connect('bob-token');
+
+    expect(alice.transport.sessionId).not.toEqual(bob.transport.sessionId);
+    expect(httpServer.sessionCount).toBe(2);
+
+    const result = await alice.client.callTool({ name: 'chat', arguments: { messages: [{ role: 'user', content: 'hi' }] } });
+    expect(result.isError).toBeFalsy();
+
+    // A session can only be used with the token that created it
+    const hijack = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: 'Bearer bob-token',
+        'Mcp-Session-Id': alice.transport.sessionId!,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+    expect(hijack.status).toBe(404);
+  });
+
+  it("keeps each client's chat sessions and usage to itself", async () => {
+    const alice = await connect('alice-token');
+    const bob = await connect('bob-token');
+    const created = await alice.client.callTool({ name: 'session_create', arguments: { title: 'plans' } });
+    const json = (result: Awaited<ReturnType<Client['callTool']>>) => JSON.parse((result.content as Array<{ text: string }>)[0].text);
+    const { id } = json(created);
+    await alice.client.callTool({ name: 'chat', arguments: { session_id: id, messages: [{ role: 'user', content: 'hi' }] } });
+
+    const listed = await bob.client.callTool({ name: 'session_list', arguments: {} });
+    const forked = await bob.client.callTool({ name: 'session_fork', arguments: { session_id: id } });
+    const deleted = await bob.client.callTool({ name: 'session_delete', arguments: { session_id: id } });
+    const bobUsage = await bob.client.callTool({ name: 'usage_report', arguments: {} });
+    const aliceSessions = await alice.client.callTool({ name: 'session_list', arguments: {} });
+    const aliceUsage = await alice.client.callTool({ name: 'usage_report', arguments: {} });
+
+    expect(json(listed)).toEqual([]);
+    expect(forked.isError).toBe(true);
+    expect(deleted.isError).toBe(true);
+    expect(bobUsage.structuredContent).toMatchObject({ totals: { requests: 0 } });
+    expect(json(aliceSessions)).toMatchObject([{ id, title: 'plans', turns: 2 }]);
+    expect(aliceUsage.structuredContent).toMatchObject({ totals: { requests: 1 } });
+  });
+
+  it('keeps sessions with an open stream until the stream closes', async () => {
+    await httpServer.close();
+    httpServer = new McpHttpServer(() => createServer(new MistralAPI('test-key', { codestralBaseUrl: mock.url })), {
+      port: 0,
+      tokens: ['alice-token'],
+      sessionIdleMs: 50,
+    });
+    url = await httpServer.start();
+    // The client keeps a GET stream open for server notifications
+    const { transport } = await connect('alice-token');
+
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(httpServer.sessionCount).toBe(1);
+
+    await transport.close();
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(httpServer.sessionCount).toBe(0);
+  });
+
+  it('reports health and closes sessions on shutdown', async () => {
+    const { transport } = await connect('alice-token');
+    await transport.terminateSession();
+    await connect('bob-token');
+
+    const health = await fetch(url.replace('/mcp', '/health'));
+    expect(health.status).toBe(200);
+    expect(await health.json()).toMatchObject({ status: 'ok', sessions: 1 });
+
+    await httpServer.close();
+    expect(httpServer.sessionCount).toBe(0);
+  });
+});
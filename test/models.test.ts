@@ -0,0 +1,100 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { MistralAPI } from '../src/mistral.js';
+import { createServer } from '../src/server.js';
+import { MockMistralServer } from '../src/mock/server.js';
+import { ModelRegistry } from '../src/models.js';
+
+describe('ModelRegistry', () => {
+  it('resolves aliases and reports unknown models', () => {
+    const registry = new ModelRegistry(undefined, { fast: 'ministral-8b-latest' });
+
+    expect(registry.resolve('fast')).toMatchObject({ id: 'ministral-8b-latest', endpoint: 'mistral' });
+    expect(() => registry.resolve('gpt-4')).toThrow('Unknown model: gpt-4. Available models: codestral-latest');
+  });
+
+  it('refuses models that lack a capability, naming ones that have it', () => {
+    const registry = new ModelRegistry();
+
+    expect(() => registry.require('mistral-large-latest', 'fim', 'the fim task'))
+      .toThrow('Model mistral-large-latest does not support the fim task (it needs fim). Models that do: codestral-latest');
+  });
+
+  it('merges config entries into known models', () => {
+    const registry = new ModelRegistry();
+    registry.apply({
+      models: [
+        { id: 'mistral-large-latest', contextLength: 256000 },
+        { id: 'devstral-latest', endpoint: 'mistral', capabilities: ['chat', 'tools'] },
+      ],
+      aliases: { dev: 'devstral-latest' },
+    });
+
+    expect(registry.resolve('mistral-large-latest')).toMatchObject({ contextLength: 256000, capabilities: ['chat', 'tools'] });
+    expect(registry.names('tools')).toContain('dev');
+  });
+});
+
+describe('model registry in the server', () => {
+  const mock = new MockMistralServer({ apiKey: 'test-key' });
+  let models: ModelRegistry;
+  let api: MistralAPI;
+  let client: Client;
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    mock.reset();
+    models = new ModelRegistry();
+    api = new MistralAPI('test-key', { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url, models });
+  });
+
+  const connect = async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer(api).connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  };
+
+  afterEach(async () => {
+    await client?.close();
+  });
+
+  it('adds discovered models', async () => {
+    models.addRemote(await api.listModels());
+
+    expect(models.resolve('codestral-embed').capabilities).toEqual(['embeddings']);
+    expect(models.resolve('mistral-small-latest').contextLength).toBe(32000);
+  });
+
+  it('builds tool schemas from the registry and sends the resolved model id', async () => {
+    models.apply({ aliases: { fast: 'ministral-8b-latest' } });
+    await connect();
+
+    const { tools } = await client.listTools();
+    const chat = tools.find(tool => tool.name === 'chat')!;
+    expect((chat.inputSchema.properties as Record<string, { enum?: string[] }>).model.enum).toContain('fast');
+
+    await client.callTool({ name: 'chat', arguments: { model: 'fast', messages: [{ role: 'user', content: 'hi' }] } });
+    expect(mock.requests[0].body.model).toBe('ministral-8b-latest');
+  });
+
+  it('rejects model and task pairs the model cannot handle', async () => {
+    await connect();
+
+    const result = await client.callTool({
+      name: 'code_completion',
+      arguments: { code: 'def add(a, b):', suffix: 'return c', task: 'fim', model: 'codestral-mamba-latest' },
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result.content as Array<{ text: string }>)[0].text).toContain('does not support the fim task');
+    expect(mock.requests).toHaveLength(0);
+  });
+});
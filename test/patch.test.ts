@@ -0,0 +1,133 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { applyPatchToFile, applyUnifiedDiff, createDiff, hashText } from '../src/patch.js';
+import { MistralAPI } from '../src/mistral.js';
+import { createServer } from '../src/server.js';
+import { MockMistralServer } from '../src/mock/server.js';
+import { Workspace } from '../src/workspace.js';
+
+const original = 'abcdefghijklmnopqrst'.split('').join('\n') + '\n';
+
+describe('applyUnifiedDiff', () => {
+  it('round-trips a diff, including end-of-file newline changes', () => {
+    const updated = original.replace('b\n', 'B\n').replace('t\n', 'T');
+    expect(applyUnifiedDiff(original, createDiff('x', original, updated)).text).toBe(updated);
+
+    const restored = applyUnifiedDiff(updated, createDiff('x', updated, original));
+    expect(restored.text).toBe(original);
+  });
+
+  it('finds hunks that moved and reports the ones that no longer match', () => {
+    const diff = createDiff('x', original, original.replace('b\n', 'B\n').replace('r\n', 'R\n'));
+    const shifted = 'new first line\n' + original.replace('r\n', 'changed\n');
+
+    const result = applyUnifiedDiff(shifted, diff);
+
+    expect(result.applied).toBe(false);
+    expect(result.hunks).toEqual([
+      { index: 0, oldStart: 1, applied: true, appliedAt: 2 },
+      { index: 1, oldStart: 14, applied: false, reason: 'context does not match the file' },
+    ]);
+  });
+});
+
+describe('applyPatchToFile', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'patch-'));
+    file = path.join(dir, 'x.txt');
+    await fs.writeFile(file, original);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const diff = () => createDiff('x.txt', original, original.replace('e\n', 'E\n'));
+
+  it('writes a backup before changing the file', async () => {
+    const result = await applyPatchToFile(file, diff(), { expectedHash: hashText(original) });
+
+    expect(result).toMatchObject({ written: true, backupPath: `${file}.bak` });
+    expect(await fs.readFile(file, 'utf-8')).toBe(original.replace('e\n', 'E\n'));
+    expect(await fs.readFile(`${file}.bak`, 'utf-8')).toBe(original);
+  });
+
+  it('leaves the file alone on a dry run', async () => {
+    const result = await applyPatchToFile(file, diff(), { dryRun: true });
+
+    expect(result).toMatchObject({ written: false, dryRun: true });
+    expect(result.hunks[0].applied).toBe(true);
+    expect(await fs.readFile(file, 'utf-8')).toBe(original);
+  });
+
+  it('refuses files that changed since the diff was made', async () => {
+    await fs.writeFile(file, original + 'local edit\n');
+
+    await expect(applyPatchToFile(file, diff(), { expectedHash: hashText(original) }))
+      .rejects.toThrow(/has changed since the diff was created/);
+    expect(await fs.readFile(file, 'utf-8')).toBe(original + 'local edit\n');
+  });
+});
+
+describe('fix with diff output', () => {
+  const mock = new MockMistralServer();
+  let root: string;
+  let client: Client;
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    mock.reset();
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'fix-'));
+    await fs.writeFile(path.join(root, 'sum.js'), 'const sum = (a, b) => a - b;\nexport default sum;\n');
+
+    const api = new MistralAPI('test-key', { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer(api, { workspace: new Workspace([root]) }).connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('returns a diff and applies it to the file', async () => {
+    mock.enqueue('/chat/completions', {
+      content: 'The operator was wrong.\n```js\nconst sum = (a, b) => a + b;\nexport default sum;\n```',
+    });
+
+    const result = await client.callTool({
+      name: 'code_completion',
+      arguments: { task: 'fix', filePath: 'sum.js', output: 'diff', apply: true },
+    });
+    const [diff, report] = result.content as Array<{ text: string }>;
+
+    expect(result.isError).toBeFalsy();
+    expect(diff.text).toContain('-const sum = (a, b) => a - b;\n+const sum = (a, b) => a + b;');
+    expect(JSON.parse(report.text)).toMatchObject({ written: true, failed_hunks: [] });
+    expect(await fs.readFile(path.join(root, 'sum.js'), 'utf-8')).toBe('const sum = (a, b) => a + b;\nexport default sum;\n');
+  });
+
+  it('applies a diff through apply_patch and reports hunks that do not apply', async () => {
+    const patch = createDiff('sum.js', 'const sum = (a, b) => a * b;\n', 'const sum = (a, b) => a + b;\n');
+
+    const result = await client.callTool({ name: 'apply_patch', arguments: { filePath: 'sum.js', patch } });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse((result.content as Array<{ text: string }>)[0].text)).toMatchObject({ written: false, failed_hunks: [0] });
+  });
+});
@@ -0,0 +1,138 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { MistralAPI } from '../src/mistral.js';
+import { createServer } from '../src/server.js';
+import { MockMistralServer } from '../src/mock/server.js';
+import { WritePolicy, WriteRefusedError } from '../src/policy.js';
+
+describe('WritePolicy', () => {
+  let root: string;
+  let outside: string;
+  let auditLog: string;
+
+  beforeEach(async () => {
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'write-root-')));
+    outside = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'write-outside-')));
+    auditLog = path.join(outside, 'audit.log');
+    await fs.symlink(outside, path.join(root, 'escape'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+    await fs.rm(outside, { recursive: true, force: true });
+  });
+
+  const refusal = async (promise: Promise<unknown>) => {
+    const error = await promise.catch(caught => caught);
+    expect(error).toBeInstanceOf(WriteRefusedError);
+    return (error as WriteRefusedError).reason;
+  };
+
+  it('keeps writes inside the roots, following symlinks', async () => {
+    const policy = new WritePolicy({ roots: [root] });
+
+    await expect(policy.write('src/new/file.ts', 'x', { tool: 'test' })).resolves.toMatchObject({ created: true });
+    expect(await refusal(policy.write('../elsewhere.ts', 'x', { tool: 'test' }))).toBe('outside_roots');
+    expect(await refusal(policy.write(path.join(outside, 'a.ts'), 'x', { tool: 'test' }))).toBe('outside_roots');
+    expect(await refusal(policy.write('escape/a.ts', 'x', { tool: 'test' }))).toBe('outside_roots');
+    await expect(fs.readdir(outside)).resolves.toEqual([]);
+  });
+
+  it('refuses paths on the deny list', async () => {
+    const policy = new WritePolicy({ roots: [root] });
+
+    expect(await refusal(policy.write('.git/config', 'x', { tool: 'test' }))).toBe('denied_path');
+    expect(await refusal(policy.write('app/.env', 'x', { tool: 'test' }))).toBe('denied_path');
+    expect(await refusal(policy.write('.env.production', 'x', { tool: 'test' }))).toBe('denied_path');
+  });
+
+  it('applies the overwrite mode to existing files', async () => {
+    await fs.writeFile(path.join(root, 'a.ts'), 'original');
+
+    expect(await refusal(new WritePolicy({ roots: [root], overwrite: 'never' }).write('a.ts', 'new', { tool: 'test' }))).toBe('exists');
+
+    const backup = await new WritePolicy({ roots: [root], overwrite: 'backup' }).write('a.ts', 'second', { tool: 'test' });
+    expect(await fs.readFile(backup.backupPath!, 'utf-8')).toBe('original');
+
+    const always = await new WritePolicy({ roots: [root], overwrite: 'always' }).write('a.ts', 'third', { tool: 'test' });
+    expect(always.backupPath).toBeUndefined();
+    expect(await fs.readFile(path.join(root, 'a.ts'), 'utf-8')).toBe('third');
+  });
+
+  it('checks backups like any other write', async () => {
+    const policy = new WritePolicy({ roots: [root], overwrite: 'backup' });
+    for (const file of ['a.ts', 'b.ts', 'c.ts', '.env']) {
+      await fs.writeFile(path.join(root, file), 'original');
+    }
+    await fs.writeFile(path.join(outside, 'a.ts.bak'), 'outside');
+    await fs.symlink(path.join(outside, 'a.ts.bak'), path.join(root, 'a.ts.bak'));
+    await fs.symlink(path.join(root, '.env'), path.join(root, 'b.ts.bak'));
+    await fs.symlink(path.join(outside, 'missing'), path.join(root, 'c.ts.bak'));
+
+    expect(await refusal(policy.write('a.ts', 'new', { tool: 'test' }))).toBe('outside_roots');
+    expect(await refusal(policy.write('b.ts', 'new', { tool: 'test' }))).toBe('denied_path');
+    expect(await refusal(policy.write('c.ts', 'new', { tool: 'test' }))).toBe('not_a_file');
+    expect(await fs.readFile(path.join(outside, 'a.ts.bak'), 'utf-8')).toBe('outside');
+    expect(await fs.readFile(path.join(root, '.env'), 'utf-8')).toBe('original');
+    await expect(fs.readdir(outside)).resolves.toEqual(['a.ts.bak']);
+    expect(await fs.readFile(path.join(root, 'a.ts'), 'utf-8')).toBe('original');
+  });
+
+  it('records writes and refusals in the audit log', async () => {
+    const policy = new WritePolicy({ roots: [root], auditLog });
+
+    await policy.write('ok.ts', 'hello', { tool: 'code_completion' });
+    await policy.write('.env', 'SECRET=1', { tool: 'code_completion' }).catch(() => undefined);
+
+    const records = (await fs.readFile(auditLog, 'utf-8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(records).toEqual([
+      expect.objectContaining({ tool: 'code_completion', action: 'write', path: path.join(root, 'ok.ts'), bytes: 5 }),
+      expect.objectContaining({ tool: 'code_completion', action: 'refused', path: '.env', reason: 'denied_path' }),
+    ]);
+  });
+});
+
+describe('outputPath under the write policy', () => {
+  const mock = new MockMistralServer();
+  let root: string;
+  let client: Client;
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'output-'));
+    const api = new MistralAPI('test-key', { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer(api, { writePolicy: new WritePolicy({ roots: [root] }) }).connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('returns a structured error for refused writes', async () => {
+    const result = await client.callTool({
+      name: 'code_completion',
+      arguments: { code: 'x', task: 'complete', outputPath: '../../tmp/evil.sh' },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse((result.content as Array<{ text: string }>)[0].text)).toMatchObject({
+      error: 'write_refused',
+      reason: 'outside_roots',
+      path: '../../tmp/evil.sh',
+    });
+  });
+});
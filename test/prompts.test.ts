@@ -0,0 +1,116 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { PromptListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { MistralAPI } from '../src/mistral.js';
+import { createServer } from '../src/server.js';
+import { MockMistralServer } from '../src/mock/server.js';
+import { PromptLibrary, renderTemplate } from '../src/prompts.js';
+
+describe('renderTemplate', () => {
+  it('fills variables and drops sections for unset ones', () => {
+    const template = 'Write{{#framework}} {{framework}}{{/framework}} tests in {{language}}.';
+
+    expect(renderTemplate(template, { framework: 'vitest', language: 'ts' })).toBe('Write vitest tests in ts.');
+    expect(renderTemplate(template, { language: 'ts' })).toBe('Write tests in ts.');
+    expect(renderTemplate('{{#goal}}Goal: {{goal}}{{/goal}}{{^goal}}No goal{{/goal}}', {})).toBe('No goal');
+  });
+
+  it('renders the built-in prompts as before', () => {
+    const api = new MistralAPI('test-key');
+
+    expect(api.createPrompt('x = 1', 'python', 'fim', 'print(x)')).toEqual([
+      {
+        role: 'system',
+        content: 'You are an expert programmer. Complete the code between the given start and end sections, ensuring it flows naturally.',
+      },
+      {
+        role: 'user',
+        content: 'Here is the python code:\n\n```python\nx = 1\n```\n\nThe code should end with:\n\n```python\nprint(x)\n```',
+      },
+    ]);
+  });
+});
+
+describe('prompt templates', () => {
+  const mock = new MockMistralServer({ apiKey: 'test-key' });
+  let dir: string;
+  let prompts: PromptLibrary;
+  let client: Client;
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    mock.reset();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'prompts-'));
+    await fs.writeFile(path.join(dir, 'test.json'), JSON.stringify({ defaults: { framework: 'vitest' } }));
+    await fs.writeFile(path.join(dir, 'document.json'), JSON.stringify({
+      description: 'Add doc comments',
+      system: 'Add doc comments following {{style_guide}}.',
+      user: '```{{language}}\n{{code}}\n```',
+      defaults: { style_guide: 'TSDoc' },
+    }));
+    await fs.writeFile(path.join(dir, 'broken.json'), '{ not json');
+
+    prompts = new PromptLibrary(dir);
+    await prompts.load();
+    const api = new MistralAPI('test-key', { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer(api, { prompts }).connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('lists built-in and custom prompts, skipping broken files', async () => {
+    const { prompts: listed } = await client.listPrompts();
+
+    expect(listed.map(prompt => prompt.name)).toEqual(['complete', 'fix', 'test', 'fim', 'review', 'explain', 'refactor', 'document']);
+    expect(listed[0].arguments).toContainEqual({ name: 'code', description: 'The code to process', required: true });
+  });
+
+  it('renders prompts with template defaults and caller arguments', async () => {
+    const result = await client.getPrompt({ name: 'test', arguments: { code: 'add(1, 2)', language: 'ts' } });
+    const text = (result.messages[0].content as { text: string }).text;
+
+    expect(text).toContain('Use vitest.');
+    expect(text).toContain('```ts\nadd(1, 2)\n```');
+    await expect(client.getPrompt({ name: 'test', arguments: {} })).rejects.toThrow('Missing required argument');
+  });
+
+  it('runs custom tasks through code_completion', async () => {
+    await client.callTool({
+      name: 'code_completion',
+      arguments: { code: 'function add(a, b) {}', language: 'js', task: 'document', style_guide: 'JSDoc' },
+    });
+
+    expect(mock.requests[0].body.messages).toEqual([
+      { role: 'system', content: 'Add doc comments following JSDoc.' },
+      { role: 'user', content: '```js\nfunction add(a, b) {}\n```' },
+    ]);
+  });
+
+  it('reloads templates when the directory changes', async () => {
+    const changed = new Promise<void>(resolve => {
+      client.setNotificationHandler(PromptListChangedNotificationSchema, () => resolve());
+    });
+    // Give the watcher a moment to start
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await fs.writeFile(path.join(dir, 'summarize.json'), JSON.stringify({ system: 'Summarize the code.', user: '{{code}}' }));
+
+    await changed;
+    expect(prompts.names()).toContain('summarize');
+  });
+});
@@ -0,0 +1,164 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { MistralAPI } from '../src/mistral.js';
+import { createServer } from '../src/server.js';
+import { MockMistralServer } from '../src/mock/server.js';
+import { ModelRegistry } from '../src/models.js';
+import { parseProviders, reloadKeysOn } from '../src/providers.js';
+
+const retry = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 10 };
+
+describe('providers', () => {
+  const mock = new MockMistralServer({ apiKey: 'good' });
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(() => {
+    mock.reset();
+  });
+
+  const authorizations = () => mock.requests.map(request => request.headers.authorization);
+
+  it('moves on to the next key when one is rejected', async () => {
+    const api = new MistralAPI('revoked,good', { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url, retry });
+
+    await api.chatCompletion([{ role: 'user', content: 'hi' }]);
+    await api.chatCompletion([{ role: 'user', content: 'again' }]);
+
+    expect(authorizations()).toEqual(['Bearer revoked', 'Bearer good', 'Bearer good']);
+  });
+
+  it('keeps a key refused with 403 unless the API says the key is invalid', async () => {
+    const api = new MistralAPI('good,spare', { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url, retry: { maxRetries: 0 } });
+    mock.enqueue('/chat/completions',
+      { status: 403, body: { error: { message: 'You do not have access to this model' } } },
+      { status: 403, body: { error: { message: 'The API key has been revoked' } } });
+
+    await expect(api.chatCompletion([{ role: 'user', content: 'hi' }])).rejects.toThrow('do not have access');
+    // The revoked key makes way for the spare one, which the mock does not know
+    await expect(api.chatCompletion([{ role: 'user', content: 'hi' }])).rejects.toThrow('Authentication failed');
+
+    expect(authorizations()).toEqual(['Bearer good', 'Bearer good', 'Bearer spare']);
+  });
+
+  it('hands over to the next key after a rate limit', async () => {
+    const api = new MistralAPI(['good', 'unknown'], { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url, retry });
+    mock.failNext('/chat/completions', 429);
+
+    await api.chatCompletion([{ role: 'user', content: 'hi' }]);
+
+    // The retry after the 429 uses the next key, which the mock does not know, so it is dropped in turn
+    expect(authorizations()).toEqual(['Bearer good', 'Bearer unknown', 'Bearer good']);
+  });
+
+  it('takes up new keys on SIGHUP', async () => {
+    const api = new MistralAPI('old', { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url, retry: { maxRetries: 0 } });
+    const stop = reloadKeysOn('SIGHUP', api, () => ({ codestral: ['good'], mistral: [], unknown: ['x'] }));
+
+    try {
+      await expect(api.fimCompletion('def f(')).rejects.toThrow('Authentication failed');
+      process.emit('SIGHUP', 'SIGHUP');
+      await new Promise(resolve => setImmediate(resolve));
+      await api.fimCompletion('def f(');
+    } finally {
+      stop();
+    }
+
+    expect(authorizations()).toEqual(['Bearer old', 'Bearer good']);
+  });
+
+  it('uses separate keys for Codestral and La Plateforme', async () => {
+    const api = new MistralAPI('general', { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url, codestralApiKey: 'good', retry: { maxRetries: 0 } });
+
+    await api.fimCompletion('def f(');
+    await expect(api.chatCompletion([{ role: 'user', content: 'hi' }], { model: 'mistral-large-latest' })).rejects.toThrow('Authentication failed');
+
+    expect(authorizations()).toEqual(['Bearer good', 'Bearer general']);
+  });
+
+  it('sends chat and FIM to an OpenAI-compatible server', async () => {
+    const models = new ModelRegistry();
+    models.apply({
+      models: [
+        { id: 'qwen2.5-coder', endpoint: 'local', capabilities: ['chat', 'fim', 'tools'] },
+        { id: 'llama-coder', endpoint: 'llama', capabilities: ['fim'] },
+      ],
+    });
+    const api = new MistralAPI(undefined, {
+      models,
+      retry,
+      providers: {
+        local: { type: 'openai', baseUrl: mock.url, apiKeys: ['good'], fim: 'completions' },
+        // llama.cpp serves /infill at the root of the server
+        llama: { type: 'openai', baseUrl: mock.url.replace(/\/v1$/, ''), apiKeys: ['good'], fim: 'infill' },
+      },
+    });
+    mock.enqueue('/completions', { content: 'return 1' });
+    mock.enqueue('/infill', { content: 'pass' });
+
+    const fim = await api.fimCompletion('def f():\n    ', { model: 'qwen2.5-coder', suffix: '\n' });
+    const infill = await api.fimCompletion('def g():\n    ', { model: 'llama-coder' });
+    await api.chatCompletion([{ role: 'user', content: 'hi' }], {
+      model: 'qwen2.5-coder',
+      tools: [{ type: 'function', function: { name: 'f', parameters: {} } }],
+      tool_choice: 'any',
+    });
+
+    expect(fim.choices[0].message.content).toBe('return 1');
+    expect(infill.choices[0].message.content).toBe('pass');
+    expect(infill.usage.completion_tokens).toBeGreaterThan(0);
+    expect(mock.requests.map(request => request.route)).toEqual(['/completions', '/infill', '/chat/completions']);
+    expect(mock.requests[0].body).toMatchObject({ model: 'qwen2.5-coder', prompt: 'def f():\n    ', suffix: '\n' });
+    expect(mock.requests[1].body).toMatchObject({ input_prefix: 'def g():\n    ', input_suffix: '', n_predict: 1000 });
+    expect(mock.requests[2].body.tool_choice).toBe('required');
+  });
+
+  it('needs a key for the Mistral providers only', async () => {
+    const api = new MistralAPI(undefined, { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url });
+
+    await expect(api.chatCompletion([{ role: 'user', content: 'hi' }])).rejects.toThrow('No API key is configured for provider codestral');
+    expect(() => new MistralAPI('  ')).toThrow('API key cannot be empty');
+  });
+
+  it('reads provider keys from the environment', () => {
+    const providers = parseProviders(
+      { ollama: { baseUrl: 'http://localhost:11434/v1', apiKeyEnv: 'OLLAMA_KEYS' } },
+      { OLLAMA_KEYS: 'a, b' }
+    );
+
+    expect(providers.ollama).toEqual({ type: 'openai', baseUrl: 'http://localhost:11434/v1', apiKeys: ['a', 'b'], fim: 'completions' });
+    expect(() => parseProviders({ vllm: { baseUrl: 'http://gpu:8000/v1', apiKeyEnv: 'VLLM_KEY' } }, {})).toThrow('VLLM_KEY');
+  });
+
+  it('sends the default models elsewhere through a profile', async () => {
+    const models = new ModelRegistry();
+    models.apply({
+      models: [{ id: 'qwen2.5-coder', endpoint: 'local', capabilities: ['chat', 'fim'] }],
+      profiles: { offline: { aliases: { 'codestral-latest': 'qwen2.5-coder', 'mistral-large-latest': 'qwen2.5-coder' } } },
+    });
+    models.useProfile('offline');
+    const api = new MistralAPI(undefined, {
+      models,
+      providers: { local: { type: 'openai', baseUrl: mock.url, apiKeys: ['good'], fim: 'completions' } },
+    });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer(api).connect(serverTransport);
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+    mock.enqueue('/completions', { content: 'x = 1' });
+
+    const result = await client.callTool({ name: 'code_completion', arguments: { task: 'fim', code: 'x = ' } });
+    await client.close();
+
+    expect((result.content as Array<{ text: string }>)[0].text).toBe('x = 1');
+    expect(mock.requests[0]).toMatchObject({ route: '/completions', body: { model: 'qwen2.5-coder' } });
+    expect(() => models.useProfile('cloud')).toThrow('Unknown model profile: cloud');
+  });
+});
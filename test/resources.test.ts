@@ -0,0 +1,119 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ResourceListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { MistralAPI } from '../src/mistral.js';
+import { createServer } from '../src/server.js';
+import { Workspace } from '../src/workspace.js';
+
+describe('workspace resources', () => {
+  let root: string;
+  let outside: string;
+  let client: Client;
+  let workspace: Workspace;
+
+  const uri = (...parts: string[]) => pathToFileURL(path.join(root, ...parts)).href;
+
+  beforeEach(async () => {
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-')));
+    outside = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'outside-')));
+
+    await fs.mkdir(path.join(root, 'src', 'generated'), { recursive: true });
+    await fs.writeFile(path.join(root, '.gitignore'), 'dist/\n*.log\n');
+    await fs.writeFile(path.join(root, 'src', '.gitignore'), 'generated/\n');
+    await fs.writeFile(path.join(root, 'src', 'app.ts'), 'export const app = 1;\n');
+    await fs.writeFile(path.join(root, 'src', 'generated', 'types.ts'), '// generated\n');
+    await fs.writeFile(path.join(root, 'debug.log'), 'noise');
+    await fs.writeFile(path.join(root, 'big.py'), 'x'.repeat(25));
+    await fs.writeFile(path.join(outside, 'secret.txt'), 'top secret');
+    await fs.symlink(path.join(outside, 'secret.txt'), path.join(root, 'link.txt'));
+
+    workspace = new Workspace([root], { pageSize: 10 });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer(new MistralAPI('test-key'), { workspace }).connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await fs.rm(root, { recursive: true, force: true });
+    await fs.rm(outside, { recursive: true, force: true });
+  });
+
+  it('lists files under the roots, honouring nested .gitignore files', async () => {
+    const { resources } = await client.listResources();
+
+    expect(resources.map(resource => resource.name).sort()).toEqual(['.gitignore', 'big.py', 'src/.gitignore', 'src/app.ts']);
+    expect(resources.find(resource => resource.name === 'src/app.ts')).toMatchObject({
+      uri: uri('src', 'app.ts'),
+      mimeType: 'text/x-typescript',
+    });
+  });
+
+  it('advertises a file template', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates[0].uriTemplate).toBe('file:///{path}');
+  });
+
+  it('reads files in pages', async () => {
+    const first = await client.readResource({ uri: uri('big.py') });
+    expect(first.contents[0]).toMatchObject({
+      mimeType: 'text/x-python',
+      text: 'x'.repeat(10),
+      _meta: { page: 1, totalPages: 3, nextPage: `${uri('big.py')}?page=2` },
+    });
+
+    const last = await client.readResource({ uri: `${uri('big.py')}?page=3` });
+    expect(last.contents[0]).toMatchObject({ text: 'xxxxx' });
+    expect(last.contents[0]._meta?.nextPage).toBeUndefined();
+  });
+
+  it('refuses paths outside the roots, including through symlinks', async () => {
+    await expect(client.readResource({ uri: pathToFileURL(path.join(outside, 'secret.txt')).href }))
+      .rejects.toThrow(/outside the workspace roots/);
+    await expect(client.readResource({ uri: `${pathToFileURL(root).href}/../${path.basename(outside)}/secret.txt` }))
+      .rejects.toThrow(/outside the workspace roots/);
+    await expect(client.readResource({ uri: uri('link.txt') }))
+      .rejects.toThrow(/outside the workspace roots/);
+  });
+
+  it('notifies clients when files are added', async () => {
+    const changed = new Promise<void>(resolve => {
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, () => resolve());
+    });
+
+    // Give the watchers a moment to attach
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await fs.writeFile(path.join(root, 'src', 'new.ts'), 'export {};\n');
+
+    await changed;
+    const { resources } = await client.listResources();
+    expect(resources.map(resource => resource.name)).toContain('src/new.ts');
+  });
+
+  it('shares one watcher between sessions and keeps it while any is open', async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer(new MistralAPI('test-key'), { workspace }).connect(serverTransport);
+    const second = new Client({ name: "second-client", version: "1.0.0" });
+    await second.connect(clientTransport);
+    const notified = (target: Client) => new Promise<void>(resolve => {
+      target.setNotificationHandler(ResourceListChangedNotificationSchema, () => resolve());
+    });
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    const both = Promise.all([notified(client), notified(second)]);
+    await fs.writeFile(path.join(root, 'src', 'one.ts'), 'export {};\n');
+    await both;
+
+    // The first session going away leaves the watcher running for the second
+    await client.close();
+    const still = notified(second);
+    await fs.writeFile(path.join(root, 'src', 'two.ts'), 'export {};\n');
+    await still;
+    await second.close();
+  });
+});
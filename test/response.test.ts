@@ -0,0 +1,110 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { MistralAPI } from '../src/mistral.js';
+import { createServer } from '../src/server.js';
+import { MockMistralServer } from '../src/mock/server.js';
+import { WritePolicy } from '../src/policy.js';
+import { parseResponse } from '../src/response.js';
+
+const TWO_FILES = [
+  'The bug was an off-by-one error. I also added a test.',
+  '',
+  '**src/range.ts**',
+  '```ts',
+  'export const range = (n: number) => [...Array(n).keys()];',
+  '```',
+  '',
+  '```ts title="test/range.test.ts"',
+  "import { range } from '../src/range';",
+  '```',
+].join('\n');
+
+describe('parseResponse', () => {
+  it('separates the explanation from code blocks with their language and filename', () => {
+    const parsed = parseResponse(TWO_FILES);
+
+    expect(parsed.explanation).toBe('The bug was an off-by-one error. I also added a test.\n\n**src/range.ts**');
+    expect(parsed.blocks).toEqual([
+      { language: 'ts', filename: 'src/range.ts', code: 'export const range = (n: number) => [...Array(n).keys()];', complete: true },
+      { language: 'ts', filename: 'test/range.test.ts', code: "import { range } from '../src/range';", complete: true },
+    ]);
+    expect(parseResponse('```py:app/main.py\nprint(1)\n```').blocks[0]).toMatchObject({ language: 'py', filename: 'app/main.py' });
+  });
+
+  it('handles nested and unterminated fences', () => {
+    const nested = parseResponse('````md\n# Usage\n```js\nrun();\n```\n````\nDone.');
+    expect(nested.blocks).toHaveLength(1);
+    expect(nested.blocks[0].code).toBe('# Usage\n```js\nrun();\n```');
+    expect(nested.explanation).toBe('Done.');
+
+    // Models often nest without lengthening the outer fence
+    const unlengthened = parseResponse('```markdown\n```bash\nnpm test\n```\n```');
+    expect(unlengthened.blocks.map(block => block.code)).toEqual(['```bash\nnpm test\n```']);
+
+    const cut = parseResponse('Here it is:\n```python\ndef f():\n    return 1');
+    expect(cut.blocks).toEqual([{ language: 'python', code: 'def f():\n    return 1', complete: false }]);
+    expect(cut.explanation).toBe('Here it is:');
+  });
+});
+
+describe('code_completion with structured answers', () => {
+  const mock = new MockMistralServer({ apiKey: 'test-key' });
+  let root: string;
+  let client: Client;
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    mock.reset();
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'response-')));
+    const api = new MistralAPI('test-key', { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer(api, { writePolicy: new WritePolicy({ roots: [root] }) }).connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('returns code blocks and the explanation separately', async () => {
+    mock.enqueue('/chat/completions', { content: TWO_FILES });
+
+    const result = await client.callTool({ name: 'code_completion', arguments: { task: 'fix', code: 'const range = 1;' } });
+
+    expect((result.content as Array<{ text: string }>).map(block => block.text)).toEqual([
+      'export const range = (n: number) => [...Array(n).keys()];',
+      "import { range } from '../src/range';",
+      'The bug was an off-by-one error. I also added a test.\n\n**src/range.ts**',
+    ]);
+    expect(result.structuredContent).toMatchObject({
+      blocks: [{ language: 'ts', filename: 'src/range.ts' }, { language: 'ts', filename: 'test/range.test.ts' }],
+    });
+  });
+
+  it('writes multi-file answers into an output directory', async () => {
+    mock.enqueue('/chat/completions', { content: TWO_FILES }, { content: '```ts title="../escape.ts"\nx\n```' });
+
+    const result = await client.callTool({ name: 'code_completion', arguments: { task: 'fix', code: 'const range = 1;', outputPath: 'out/', streamToFile: true } });
+
+    expect(result.isError).toBeFalsy();
+    expect(await fs.readFile(path.join(root, 'out/src/range.ts'), 'utf-8')).toBe('export const range = (n: number) => [...Array(n).keys()];');
+    expect(await fs.readFile(path.join(root, 'out/test/range.test.ts'), 'utf-8')).toContain('import { range }');
+    expect(result.structuredContent).toMatchObject({ saved: ['out/src/range.ts', 'out/test/range.test.ts'] });
+
+    const escaping = await client.callTool({ name: 'code_completion', arguments: { task: 'fix', code: 'x', outputPath: 'out' } });
+    expect(escaping.isError).toBe(true);
+    await expect(fs.access(path.join(root, 'escape.ts'))).rejects.toThrow();
+  });
+});
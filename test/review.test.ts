@@ -0,0 +1,128 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { MistralAPI } from '../src/mistral.js';
+import { createServer } from '../src/server.js';
+import { MockMistralServer } from '../src/mock/server.js';
+import { WritePolicy } from '../src/policy.js';
+import { numberLines, parseReview, toSarif } from '../src/review.js';
+
+const REVIEW = JSON.stringify({
+  findings: [
+    { start_line: 2, end_line: 2, severity: 'error', rule: 'sql-injection', message: 'The query is built from user input.', suggestion: 'Use a parameterized query.' },
+    { file: 'src/db.ts', start_line: 5, severity: 'info', rule: 'naming', message: 'q is not a descriptive name.' },
+  ],
+});
+
+describe('parseReview', () => {
+  it('fills in the file and end line, also from a fenced answer', () => {
+    expect(parseReview(`Here is my review:\n\n\`\`\`json\n${REVIEW}\n\`\`\``, 'src/users.ts')).toEqual([
+      { file: 'src/users.ts', start_line: 2, end_line: 2, severity: 'error', rule: 'sql-injection', message: 'The query is built from user input.', suggestion: 'Use a parameterized query.' },
+      { file: 'src/db.ts', start_line: 5, end_line: 5, severity: 'info', rule: 'naming', message: 'q is not a descriptive name.' },
+    ]);
+  });
+
+  it('rejects answers that do not match the schema', () => {
+    expect(() => parseReview('{"findings": [{"start_line": 0, "severity": "fatal", "rule": "x", "message": "y"}]}', 'a.ts'))
+      .toThrow('does not match the findings schema');
+    expect(() => parseReview('Looks good to me!', 'a.ts')).toThrow('not valid JSON');
+  });
+
+  it('exports findings as SARIF', () => {
+    const sarif = toSarif(parseReview(REVIEW, 'src\\users.ts'), { name: 'mcp-codestral', version: '1.0.0' });
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarif.runs[0].tool.driver.rules.map(rule => rule.id)).toEqual(['sql-injection', 'naming']);
+    expect(sarif.runs[0].results[0]).toEqual({
+      ruleId: 'sql-injection',
+      ruleIndex: 0,
+      level: 'error',
+      message: { text: 'The query is built from user input.\n\nSuggestion: Use a parameterized query.' },
+      locations: [{ physicalLocation: { artifactLocation: { uri: 'src/users.ts' }, region: { startLine: 2, endLine: 2 } } }],
+    });
+    expect(sarif.runs[0].results[1]).toMatchObject({ ruleIndex: 1, level: 'note' });
+  });
+});
+
+describe('code tasks', () => {
+  const mock = new MockMistralServer({ apiKey: 'test-key' });
+  let root: string;
+  let client: Client;
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    mock.reset();
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'review-')));
+    const api = new MistralAPI('test-key', { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer(api, { writePolicy: new WritePolicy({ roots: [root] }) }).connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  const CODE = 'function find(db, name) {\n  return db.query("SELECT * FROM users WHERE name = \'" + name + "\'");\n}';
+
+  it('reviews code with numbered lines and returns the findings', async () => {
+    mock.enqueue('/chat/completions', { content: REVIEW });
+
+    const result = await client.callTool({ name: 'code_completion', arguments: { task: 'review', code: CODE, language: 'js' } });
+
+    const body = mock.requests[0].body;
+    expect(body.response_format).toMatchObject({ type: 'json_schema', json_schema: { name: 'review' } });
+    expect(body.messages?.[1].content).toContain(numberLines(CODE));
+    expect(numberLines('a\n  b')).toBe('1 | a\n2 |   b');
+    expect(result.structuredContent).toMatchObject({
+      findings: [{ file: 'code', start_line: 2, rule: 'sql-injection' }, { file: 'src/db.ts', rule: 'naming' }],
+    });
+  });
+
+  it('writes a SARIF log and reports answers that are not findings', async () => {
+    mock.enqueue('/chat/completions', { content: REVIEW }, { content: 'Looks good to me!' });
+
+    const result = await client.callTool({
+      name: 'code_completion',
+      arguments: { task: 'review', code: CODE, output: 'sarif', outputPath: 'reports/review.sarif', streamToFile: true },
+    });
+    const invalid = await client.callTool({ name: 'code_completion', arguments: { task: 'review', code: CODE } });
+
+    expect((result.content as Array<{ text: string }>)[0].text).toBe('Successfully saved 2 findings to reports/review.sarif');
+    const sarif = JSON.parse(await fs.readFile(path.join(root, 'reports/review.sarif'), 'utf-8'));
+    expect(sarif.runs[0].results).toHaveLength(2);
+    expect(sarif.runs[0].tool.driver.name).toBe('mcp-codestral');
+    expect(invalid.isError).toBe(true);
+    expect((invalid.content as Array<{ text: string }>)[0].text).toContain('not valid JSON');
+  });
+
+  it('keeps explanations whole and passes the refactoring goal', async () => {
+    mock.enqueue('/chat/completions',
+      { content: 'It looks up a user:\n\n```js\ndb.query(...)\n```\n\nThe name is not escaped.' },
+      { content: '```js\nconst find = (db, name) => db.query("SELECT * FROM users WHERE name = ?", [name]);\n```\n\nUsed a placeholder.' });
+
+    const explained = await client.callTool({ name: 'code_completion', arguments: { task: 'explain', code: CODE } });
+    const refactored = await client.callTool({
+      name: 'code_completion',
+      arguments: { task: 'refactor', code: CODE, goal: 'use an arrow function', output: 'diff' },
+    });
+
+    expect(explained.structuredContent).toEqual({ explanation: 'It looks up a user:\n\n```js\ndb.query(...)\n```\n\nThe name is not escaped.' });
+    expect(mock.requests[1].body.messages?.[0].content).toContain('with this goal: use an arrow function, keeping its behaviour unchanged');
+    expect((refactored.content as Array<{ text: string }>)[0].text).toContain('+const find = (db, name) =>');
+
+    const sarifForFix = await client.callTool({ name: 'code_completion', arguments: { task: 'fix', code: CODE, output: 'sarif' } });
+    expect((sarifForFix.content as Array<{ text: string }>)[0].text).toContain("output 'sarif' is only supported for the 'review' task");
+  });
+});
@@ -0,0 +1,106 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { MistralAPI } from '../src/mistral.js';
+import { MockMistralServer } from '../src/mock/server.js';
+import { SemanticIndex, chunkCode } from '../src/semantic.js';
+import { Workspace } from '../src/workspace.js';
+
+describe('chunkCode', () => {
+  it('splits at top-level declarations and keeps their comments', () => {
+    const chunks = chunkCode([
+      "import fs from 'fs';",
+      '',
+      '// Reads the config',
+      'export async function loadConfig(file) {',
+      '  return JSON.parse(await fs.readFile(file));',
+      '}',
+      '',
+      'class Cache {',
+      '  get(key) {}',
+      '}',
+      '',
+    ].join('\n'));
+
+    expect(chunks.map(({ startLine, endLine, symbol }) => ({ startLine, endLine, symbol }))).toEqual([
+      { startLine: 1, endLine: 1, symbol: undefined },
+      { startLine: 3, endLine: 6, symbol: 'loadConfig' },
+      { startLine: 8, endLine: 10, symbol: 'Cache' },
+    ]);
+  });
+
+  it('splits long classes at their methods', () => {
+    const methods = Array.from({ length: 10 }, (_, i) => [
+      `  def method_${i}(self):`,
+      ...Array.from({ length: 10 }, () => '    pass'),
+    ]).flat();
+    const chunks = chunkCode(['class Big:', ...methods].join('\n'));
+
+    expect(chunks.length).toBe(10);
+    expect(chunks[1]).toMatchObject({ startLine: 13, endLine: 23, symbol: 'method_1' });
+  });
+});
+
+describe('SemanticIndex', () => {
+  const mock = new MockMistralServer({ apiKey: 'test-key' });
+  let root: string;
+  let indexFile: string;
+  let index: SemanticIndex;
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    mock.reset();
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'semantic-')));
+    indexFile = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'semantic-index-')), 'index.json');
+    await fs.mkdir(path.join(root, 'src'));
+    await fs.writeFile(path.join(root, 'src', 'retry.ts'), 'export function scheduleRetry(delay) {\n  return setTimeout(retry, delay);\n}\n');
+    await fs.writeFile(path.join(root, 'src', 'config.ts'), 'export function parseConfig(text) {\n  return JSON.parse(text);\n}\n');
+
+    const api = new MistralAPI('test-key', { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url });
+    index = new SemanticIndex(new Workspace([root]), api, { file: indexFile });
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+    await fs.rm(path.dirname(indexFile), { recursive: true, force: true });
+  });
+
+  it('ranks the chunk closest to the query first', async () => {
+    const hits = await index.search('parse config text');
+
+    expect(hits[0]).toMatchObject({ path: 'src/config.ts', startLine: 1, endLine: 3, symbol: 'parseConfig' });
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+    expect(hits[0].preview).toContain('JSON.parse');
+    expect(mock.requests[0].body.model).toBe('codestral-embed');
+  });
+
+  it('re-embeds only files whose contents changed', async () => {
+    await index.update();
+    await fs.writeFile(path.join(root, 'src', 'config.ts'), 'export function readConfig(text) {\n  return text;\n}\n');
+    await fs.rm(path.join(root, 'src', 'retry.ts'));
+
+    const stats = await index.update();
+
+    expect(stats).toMatchObject({ indexed: 1, removed: 1 });
+    expect(mock.requests.at(-1)?.body.input?.[0]).toContain('readConfig');
+
+    // A fresh index over the same file picks up where the last one stopped
+    const api = new MistralAPI('test-key', { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url });
+    const reopened = new SemanticIndex(new Workspace([root]), api, { file: indexFile });
+    await expect(reopened.update()).resolves.toMatchObject({ indexed: 0, unchanged: 1 });
+  });
+
+  it('drops files that have become binary', async () => {
+    await index.update();
+    await fs.writeFile(path.join(root, 'src', 'retry.ts'), 'export function scheduleRetry\0');
+
+    await expect(index.update()).resolves.toMatchObject({ indexed: 0, removed: 1, chunks: 1 });
+  });
+});
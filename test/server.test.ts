@@ -0,0 +1,219 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { MistralAPI } from '../src/mistral.js';
+import { createServer } from '../src/server.js';
+import { MockMistralServer } from '../src/mock/server.js';
+
+describe('MCP server against the mock Mistral API', () => {
+  const mock = new MockMistralServer({ apiKey: 'test-key' });
+  let client: Client;
+
+  const connect = async (apiKey: string = 'test-key') => {
+    const api = new MistralAPI(apiKey, {
+      codestralBaseUrl: mock.url,
+      mistralBaseUrl: mock.url,
+      retry: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 10 },
+    });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer(api).connect(serverTransport);
+    const connected = new Client({ name: "test-client", version: "1.0.0" });
+    await connected.connect(clientTransport);
+    return connected;
+  };
+
+  const text = (result: Awaited<ReturnType<Client['callTool']>>) =>
+    (result.content as Array<{ type: string; text: string }>)[0].text;
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    mock.reset();
+    client = await connect();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('lists the code_completion and chat tools', async () => {
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual(['code_completion', 'chat', 'session_create', 'session_list', 'session_fork', 'session_delete', 'apply_patch', 'semantic_search', 'batch_code_task', 'usage_report']);
+  });
+
+  it('extracts code blocks from a completion', async () => {
+    mock.enqueue('/chat/completions', { content: 'Here you go:\n```ts\nconst answer = 42;\n```' });
+
+    const result = await client.callTool({
+      name: 'code_completion',
+      arguments: { code: 'const answer =', language: 'typescript', task: 'complete' },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(text(result)).toBe('const answer = 42;');
+    expect(mock.requests[0].body.model).toBe('codestral-latest');
+    expect(mock.requests[0].body.messages?.[1].content).toContain('const answer =');
+  });
+
+  it('sends the fim task to the FIM endpoint with its suffix', async () => {
+    mock.enqueue('/fim/completions', { content: '  return a + b;' });
+
+    const result = await client.callTool({
+      name: 'code_completion',
+      arguments: { code: 'function add(a, b) {\n', suffix: '\n}', task: 'fim' },
+    });
+
+    expect(text(result)).toBe('  return a + b;');
+    expect(mock.requests[0].route).toBe('/fim/completions');
+    expect(mock.requests[0].body).toMatchObject({ prompt: 'function add(a, b) {\n', suffix: '\n}', temperature: 0 });
+  });
+
+  it('returns chat content unchanged', async () => {
+    mock.enqueue('/chat/completions', { content: 'Use ```REST``` for simple APIs.' });
+
+    const result = await client.callTool({
+      name: 'chat',
+      arguments: { messages: [{ role: 'user', content: 'REST or GraphQL?' }] },
+    });
+
+    expect(text(result)).toBe('Use ```REST``` for simple APIs.');
+    expect(mock.requests[0].body.model).toBe('mistral-large-latest');
+  });
+
+  it('reports authentication failures', async () => {
+    await client.close();
+    client = await connect('wrong-key');
+
+    const result = await client.callTool({
+      name: 'chat',
+      arguments: { messages: [{ role: 'user', content: 'hello' }] },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain('Authentication failed');
+  });
+
+  it('retries rate limited requests, honouring Retry-After', async () => {
+    mock.failNext('/chat/completions', 429, 2, { 'Retry-After': '0' });
+    mock.enqueue('/chat/completions', { content: 'finally' });
+
+    const result = await client.callTool({
+      name: 'chat',
+      arguments: { messages: [{ role: 'user', content: 'hello' }] },
+    });
+
+    expect(text(result)).toBe('finally');
+    expect(mock.requests).toHaveLength(3);
+  });
+
+  it('gives up on server errors once the retries are used up', async () => {
+    mock.failNext('/chat/completions', 500, 3);
+
+    const result = await client.callTool({
+      name: 'chat',
+      arguments: { messages: [{ role: 'user', content: 'hello' }] },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain('server error after 2 retries');
+    expect(mock.requests).toHaveLength(3);
+  });
+
+  it('streams slow completions as progress notifications', async () => {
+    mock.enqueue('/chat/completions', { content: 'describe("add", () => {});', delayMs: 50 });
+    const progress: string[] = [];
+
+    const result = await client.callTool(
+      {
+        name: 'code_completion',
+        arguments: { code: 'export const add = (a, b) => a + b;', task: 'test' },
+      },
+      undefined,
+      { onprogress: notification => { progress.push(notification.message ?? ''); } }
+    );
+
+    expect(text(result)).toBe('describe("add", () => {});');
+    expect(mock.requests[0].body.stream).toBe(true);
+    expect(progress.join('')).toBe('describe("add", () => {});');
+  });
+
+  it('reports the API error of a streamed request', async () => {
+    mock.failNext('/chat/completions', 400);
+    mock.failNext('/fim/completions', 422);
+    const onprogress = () => {};
+
+    const chat = await client.callTool({ name: 'chat', arguments: { messages: [{ role: 'user', content: 'hello' }] } }, undefined, { onprogress });
+    const fim = await client.callTool({ name: 'code_completion', arguments: { code: 'x = ', task: 'fim' } }, undefined, { onprogress });
+
+    expect(mock.requests.map(request => request.body.stream)).toEqual([true, true]);
+    expect(text(chat)).toBe('Error: Mistral API error (400): Injected 400 error');
+    expect(text(fim)).toContain('Mistral API error (422): Injected 422 error');
+    expect(text(fim)).toContain('"type":"mock_error"');
+
+    // Only the first 64 KiB of a long error body are read, counted in bytes
+    mock.enqueue('/fim/completions', { status: 400, body: 'é'.repeat(50000) });
+    const long = await client.callTool({ name: 'code_completion', arguments: { code: 'x = ', task: 'fim' } }, undefined, { onprogress });
+    const kept = text(long).split('é').length - 1;
+    expect(kept).toBeGreaterThan(30000);
+    expect(kept).toBeLessThan(32768);
+  });
+
+  it('returns tool calls as structured content, streamed or not', async () => {
+    const tools = [{
+      type: 'function',
+      function: { name: 'get_weather', parameters: { type: 'object', properties: { city: { type: 'string' } } } },
+    }];
+    mock.enqueue('/chat/completions',
+      { toolCalls: [{ name: 'get_weather', arguments: { city: 'Paris' } }] },
+      { toolCalls: [{ name: 'get_weather', arguments: { city: 'Lyon' } }] });
+
+    const plain = await client.callTool({
+      name: 'chat',
+      arguments: { messages: [{ role: 'user', content: 'Weather in Paris?' }], tools, tool_choice: 'any' },
+    });
+    const streamed = await client.callTool(
+      { name: 'chat', arguments: { messages: [{ role: 'user', content: 'Weather in Lyon?' }], tools } },
+      undefined,
+      { onprogress: () => {} }
+    );
+
+    expect(mock.requests[0].body).toMatchObject({ tools, tool_choice: 'any' });
+    expect(plain.structuredContent).toMatchObject({
+      tool_calls: [{ name: 'get_weather', arguments: { city: 'Paris' } }],
+      finish_reason: 'tool_calls',
+    });
+    expect(streamed.structuredContent).toMatchObject({
+      tool_calls: [{ name: 'get_weather', arguments: { city: 'Lyon' } }],
+    });
+  });
+
+  it('validates JSON answers against the requested schema', async () => {
+    const response_format = {
+      type: 'json_schema',
+      json_schema: {
+        name: 'answer',
+        schema: { type: 'object', properties: { value: { type: 'number' } }, required: ['value'] },
+      },
+    };
+    mock.enqueue('/chat/completions', { content: '{"value": 42}' }, { content: '{"value": "many"}' });
+
+    const valid = await client.callTool({
+      name: 'chat',
+      arguments: { messages: [{ role: 'user', content: 'How many?' }], response_format },
+    });
+    const invalid = await client.callTool({
+      name: 'chat',
+      arguments: { messages: [{ role: 'user', content: 'How many?' }], response_format },
+    });
+
+    expect(mock.requests[0].body.response_format).toEqual(response_format);
+    expect(valid.structuredContent).toMatchObject({ json: { value: 42 } });
+    expect(invalid.isError).toBe(true);
+    expect(text(invalid)).toContain('does not match the answer schema');
+  });
+});
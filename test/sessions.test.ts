@@ -0,0 +1,129 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { MistralAPI } from '../src/mistral.js';
+import { createServer } from '../src/server.js';
+import { MockMistralServer } from '../src/mock/server.js';
+import { Session, SessionStore, compactSession, sessionMessages } from '../src/sessions.js';
+
+describe('compactSession', () => {
+  const session = (turns: number): Session => ({
+    id: 'test',
+    createdAt: '',
+    updatedAt: '',
+    system: 'Be brief.',
+    messages: Array.from({ length: turns }, (_, i) => ({
+      role: i % 2 === 0 ? 'user' : 'assistant',
+      content: `message ${i} `.repeat(40),
+    })),
+  });
+
+  it('leaves a session that fits alone', async () => {
+    const small = session(4);
+    await expect(compactSession(small, [], 10_000)).resolves.toEqual({ compacted: 0, summarized: false });
+    expect(small.messages).toHaveLength(4);
+  });
+
+  it('folds the oldest turns into the summary', async () => {
+    const long = session(8);
+    const summarize = async (messages: Array<{ content: string }>) => `summary of ${messages.length}`;
+
+    const result = await compactSession(long, [{ role: 'user', content: 'next' }], 500, summarize);
+
+    expect(result.summarized).toBe(true);
+    expect(long.messages.length).toBe(8 - result.compacted);
+    expect(long.messages[0].role).toBe('user');
+    expect(sessionMessages(long)[1]).toEqual({
+      role: 'system',
+      content: expect.stringContaining('summary of'),
+    });
+  });
+
+  it('drops the oldest turns when summarizing fails', async () => {
+    const long = session(8);
+    const result = await compactSession(long, [], 500, async () => {
+      throw new Error('boom');
+    });
+
+    expect(result).toMatchObject({ summarized: false });
+    expect(result.compacted).toBeGreaterThan(0);
+    expect(long.summary).toBeUndefined();
+  });
+});
+
+describe('chat sessions', () => {
+  const mock = new MockMistralServer({ apiKey: 'test-key' });
+  let dir: string;
+  let client: Client;
+
+  const call = async (name: string, args: Record<string, unknown> = {}) => {
+    const result = await client.callTool({ name, arguments: args });
+    return {
+      isError: result.isError,
+      text: (result.content as Array<{ type: string; text: string }>).map(block => block.text),
+    };
+  };
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    mock.reset();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sessions-'));
+    const api = new MistralAPI('test-key', { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer(api, { sessions: new SessionStore(dir) }).connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the history on the server between calls', async () => {
+    const created = JSON.parse((await call('session_create', { title: 'Design', system: 'You are a reviewer.' })).text[0]);
+    mock.enqueue('/chat/completions', { content: 'first answer' }, { content: 'second answer' });
+
+    await call('chat', { session_id: created.id, messages: [{ role: 'user', content: 'first question' }] });
+    const second = await call('chat', { session_id: created.id, messages: [{ role: 'user', content: 'second question' }] });
+
+    expect(second.text).toEqual(['second answer']);
+    expect(mock.requests[1].body.messages).toEqual([
+      { role: 'system', content: 'You are a reviewer.' },
+      { role: 'user', content: 'first question' },
+      { role: 'assistant', content: 'first answer' },
+      { role: 'user', content: 'second question' },
+    ]);
+
+    const stored = JSON.parse(await fs.readFile(path.join(dir, `${created.id}.json`), 'utf-8'));
+    expect(stored.messages).toHaveLength(4);
+  });
+
+  it('lists, forks and deletes sessions', async () => {
+    const created = JSON.parse((await call('session_create', { title: 'Original' })).text[0]);
+    await call('chat', { session_id: created.id, messages: [{ role: 'user', content: 'hello' }] });
+
+    const fork = JSON.parse((await call('session_fork', { session_id: created.id, message_count: 1 })).text[0]);
+    expect(fork).toMatchObject({ parentId: created.id, title: 'Original (fork)', messages: [{ role: 'user', content: 'hello' }] });
+
+    const listed = JSON.parse((await call('session_list')).text[0]);
+    expect(listed.map((session: { id: string }) => session.id).sort()).toEqual([created.id, fork.id].sort());
+
+    await call('session_delete', { session_id: created.id });
+    const missing = await call('chat', { session_id: created.id, messages: [{ role: 'user', content: 'hi' }] });
+    expect(missing.isError).toBe(true);
+    expect(missing.text[0]).toContain('Session not found');
+    const missingFork = await call('session_fork', { session_id: created.id });
+    expect(missingFork.isError).toBe(true);
+    expect(missingFork.text[0]).toMatch(/^Error: Session not found/);
+  });
+});
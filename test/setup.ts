@@ -0,0 +1,6 @@
+import { configureLogging, LOG_LEVELS } from '../src/logger.js';
+
+// The suites go through error paths on purpose, so the server's own records stay off stderr unless LOG_LEVEL asks
+// for them; anything else a test prints still stands out
+const level = LOG_LEVELS.find(candidate => candidate === process.env.LOG_LEVEL);
+configureLogging({ level: level ?? 'critical' });
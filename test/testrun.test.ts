@@ -0,0 +1,116 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { MistralAPI } from '../src/mistral.js';
+import { createServer } from '../src/server.js';
+import { MockMistralServer } from '../src/mock/server.js';
+import { runTestCommand, testFileName } from '../src/testrun.js';
+import { Workspace } from '../src/workspace.js';
+
+describe('runTestCommand', () => {
+  it('names test files after the language convention', () => {
+    expect(testFileName('python', 'src/parser.py')).toBe('test_parser.py');
+    expect(testFileName('go', 'pkg/add.go')).toBe('add_test.go');
+    expect(testFileName('typescript')).toBe('generated.test.ts');
+  });
+
+  it('stops commands that run past the timeout', async () => {
+    const run = await runTestCommand('node -e "setTimeout(() => {}, 10000)" {file}', 'ignored', { cwd: os.tmpdir(), timeoutMs: 200 });
+
+    expect(run).toMatchObject({ passed: false, timedOut: true });
+    expect(run.durationMs).toBeLessThan(5000);
+  });
+});
+
+describe('code_completion with run_tests', () => {
+  const mock = new MockMistralServer({ apiKey: 'test-key' });
+  let root: string;
+  let client: Client;
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    mock.reset();
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'testrun-')));
+    const api = new MistralAPI('test-key', { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer(api, {
+      workspace: new Workspace([root]),
+      testRunner: { commands: { '*': 'node {file}' }, cwd: root, maxRepairRounds: 2 },
+    }).connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('feeds failures back to the model until the tests pass', async () => {
+    mock.enqueue('/chat/completions',
+      { content: "```js\nthrow new Error('assertion broke');\n```" },
+      { content: "```js\nconsole.log('all good');\n```" });
+
+    const result = await client.callTool({
+      name: 'code_completion',
+      arguments: { code: 'export const one = 1;', language: 'javascript', task: 'test', run_tests: true },
+    });
+
+    const content = result.content as Array<{ type: string; text: string }>;
+    expect(content[0].text).toBe("console.log('all good');");
+    expect(result.structuredContent).toMatchObject({ passed: true, repairs: 1 });
+    expect(JSON.parse(content[1].text).transcript[0]).toMatchObject({ passed: false, exitCode: 1 });
+    expect(mock.requests[1].body.messages?.at(-1)?.content).toContain('assertion broke');
+    // The scratch test file is gone, without backups of the failed round
+    expect(await fs.readdir(root)).toEqual([]);
+  });
+
+  it('reports failure once the repair rounds are used up', async () => {
+    mock.enqueue('/chat/completions', { content: "```js\nprocess.exit(3);\n```" }, { content: "```js\nprocess.exit(3);\n```" });
+
+    const result = await client.callTool({
+      name: 'code_completion',
+      arguments: { code: 'export const one = 1;', language: 'javascript', task: 'test', run_tests: true, repair_rounds: 1 },
+    });
+
+    expect(result.structuredContent).toMatchObject({ passed: false, repairs: 1 });
+    expect(mock.requests).toHaveLength(2);
+  });
+
+  it('runs the tests next to the source file and removes them afterwards', async () => {
+    await fs.mkdir(path.join(root, 'src'));
+    await fs.writeFile(path.join(root, 'src/one.js'), 'exports.one = 1;');
+    mock.enqueue('/chat/completions', { content: "```js\nconsole.log(require('./one.js').one, __filename);\n```" });
+
+    const result = await client.callTool({
+      name: 'code_completion',
+      arguments: { filePath: 'src/one.js', language: 'javascript', task: 'test', run_tests: true },
+    });
+
+    expect(result.structuredContent).toMatchObject({ passed: true, transcript: [{ output: `1 ${path.join(root, 'src/one.test.js')}\n` }] });
+    expect(await fs.readdir(path.join(root, 'src'))).toEqual(['one.js']);
+  });
+
+  it('leaves an existing test file alone', async () => {
+    await fs.writeFile(path.join(root, 'generated.test.js'), '// mine');
+    mock.enqueue('/chat/completions', { content: "```js\nconsole.log('all good');\n```" });
+
+    const result = await client.callTool({
+      name: 'code_completion',
+      arguments: { code: 'export const one = 1;', language: 'javascript', task: 'test', run_tests: true },
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result.content as Array<{ text: string }>)[0].text).toContain('run_tests would overwrite');
+    expect(await fs.readFile(path.join(root, 'generated.test.js'), 'utf-8')).toBe('// mine');
+  });
+});
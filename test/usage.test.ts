@@ -0,0 +1,150 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { MistralAPI } from '../src/mistral.js';
+import { createServer } from '../src/server.js';
+import { MockMistralServer } from '../src/mock/server.js';
+import { UsageLedger, UsageRecord, UsageReport } from '../src/usage.js';
+
+const record = (time: string, model: string, project: string | undefined, tokens: number): UsageRecord => ({
+  time,
+  tool: 'chat',
+  project,
+  model,
+  promptTokens: tokens,
+  completionTokens: tokens,
+  totalTokens: tokens * 2,
+  cost: 0,
+});
+
+describe('UsageLedger', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('prices calls and persists them as JSON lines', async () => {
+    const file = path.join(dir, 'usage.jsonl');
+    const ledger = new UsageLedger({ file, prices: { 'my-model': { input: 1, output: 2 } } });
+
+    const saved = await ledger.record('my-model', { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 }, { tool: 'chat' });
+    await ledger.record('unknown-model', { prompt_tokens: 10, total_tokens: 10 }, { tool: 'semantic_search' });
+
+    expect(saved.cost).toBeCloseTo(0.002);
+    const lines = (await fs.readFile(file, 'utf-8')).trim().split('\n');
+    expect(lines).toHaveLength(2);
+    const report = await new UsageLedger({ file }).report({ groupBy: ['tool'] });
+    expect(report.totals.totalTokens).toBe(1510);
+    expect(report.unpriced).toEqual(['my-model', 'unknown-model']);
+  });
+
+  it('groups usage by the requested fields within a date range', async () => {
+    const file = path.join(dir, 'usage.jsonl');
+    await fs.writeFile(file, [
+      record('2026-09-30T23:00:00.000Z', 'codestral-latest', 'web', 100),
+      record('2026-10-01T08:00:00.000Z', 'codestral-latest', 'web', 100),
+      record('2026-10-01T09:00:00.000Z', 'codestral-latest', 'web', 50),
+      record('2026-10-02T10:00:00.000Z', 'mistral-large-latest', undefined, 10),
+    ].map(line => JSON.stringify(line)).join('\n') + '\n{"cut short');
+
+    const report = await new UsageLedger({ file }).report({ from: '2026-10-01', to: '2026-10-31' });
+
+    expect(report.totals.requests).toBe(3);
+    expect(report.groups).toEqual([
+      expect.objectContaining({ day: '2026-10-01', model: 'codestral-latest', project: 'web', requests: 2, totalTokens: 300 }),
+      expect.objectContaining({ day: '2026-10-02', model: 'mistral-large-latest', project: '', requests: 1 }),
+    ]);
+  });
+
+  it('refuses calls once a budget is used up', async () => {
+    const ledger = new UsageLedger({
+      file: path.join(dir, 'usage.jsonl'),
+      prices: { 'my-model': { input: 1, output: 1 } },
+      budgets: { daily: 0.5, monthly: 5 },
+    });
+
+    await ledger.checkBudget();
+    await ledger.record('my-model', { prompt_tokens: 1_000_000, completion_tokens: 0, total_tokens: 1_000_000 }, { tool: 'chat' });
+
+    await expect(ledger.checkBudget()).rejects.toThrow('The daily usage budget of $0.50 is used up ($1.00 spent)');
+    // The next day starts afresh
+    await expect(ledger.checkBudget(new Date(Date.now() + 86_400_000))).resolves.toBeUndefined();
+  });
+});
+
+describe('usage accounting in the server', () => {
+  const mock = new MockMistralServer({ apiKey: 'test-key' });
+  let dir: string;
+  let client: Client;
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  const connect = async (budgets?: { daily?: number }) => {
+    const usage = new UsageLedger({ file: path.join(dir, 'usage.jsonl'), budgets });
+    const api = new MistralAPI('test-key', { codestralBaseUrl: mock.url, mistralBaseUrl: mock.url, usage });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer(api, { usage }).connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  };
+
+  beforeEach(async () => {
+    mock.reset();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-'));
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('tags calls by tool, task and project and reports them', async () => {
+    await connect();
+    await client.callTool({ name: 'code_completion', arguments: { code: 'x = 1', task: 'fix', project: 'billing' } });
+    await client.callTool({ name: 'chat', arguments: { messages: [{ role: 'user', content: 'hi' }] } });
+
+    const result = await client.callTool({ name: 'usage_report', arguments: { group_by: ['tool', 'task', 'project'] } });
+    const report = result.structuredContent as UsageReport;
+
+    expect(report.totals.requests).toBe(2);
+    expect(report.totals.cost).toBeGreaterThan(0);
+    expect(report.groups.map(group => [group.tool, group.task, group.project])).toEqual([
+      ['chat', '', ''],
+      ['code_completion', 'fix', 'billing'],
+    ]);
+  });
+
+  it('serves this month as a resource', async () => {
+    await connect();
+    await client.callTool({ name: 'chat', arguments: { messages: [{ role: 'user', content: 'hi' }] } });
+
+    const { resources } = await client.listResources();
+    expect(resources[0].uri).toBe('usage://report');
+    const { contents } = await client.readResource({ uri: 'usage://report' });
+    expect(JSON.parse((contents[0] as { text: string }).text).groups[0]).toMatchObject({ model: 'mistral-large-latest', requests: 1 });
+  });
+
+  it('fails calls once the budget is spent', async () => {
+    await connect({ daily: 0.000001 });
+    await client.callTool({ name: 'chat', arguments: { messages: [{ role: 'user', content: 'hi' }] } });
+
+    const result = await client.callTool({ name: 'chat', arguments: { messages: [{ role: 'user', content: 'again' }] } });
+
+    expect(result.isError).toBe(true);
+    expect((result.content as Array<{ text: string }>)[0].text).toContain('daily usage budget');
+    expect(mock.requests).toHaveLength(1);
+  });
+});